@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { checkAdmin } from "@/lib/admin";
+import { getOutboxStore, processDueEntries, redriveEntry, type OutboxEntry } from "@/lib/notify/outbox";
+import { toValidationIssues } from "@/lib/validation";
+
+const StatusSchema = z.enum(["pending", "delivered", "dead"]);
+
+const ActionSchema = z.discriminatedUnion("action", [
+  // Retry pending entries whose backoff has elapsed; point a cron job here.
+  z.object({ action: z.literal("process") }),
+  // Re-drive dead entries: the given ids, or every dead entry when ids is omitted.
+  z.object({ action: z.literal("redrive"), ids: z.array(z.string().min(1)).optional() }),
+]);
+
+// The full text repeats the blueprint JSON; the summary is enough to identify a submission.
+function toListItem({ notification, blueprintId, ...entry }: OutboxEntry) {
+  return { ...entry, blueprintId: blueprintId ?? notification.id.replace(/-r\d+$/, ""), subject: notification.subject, summary: notification.summary };
+}
+
+export async function GET(req: Request) {
+  const denied = checkAdmin(req);
+  if (denied) return denied;
+
+  const statusParam = new URL(req.url).searchParams.get("status");
+  const status = statusParam ? StatusSchema.safeParse(statusParam) : null;
+  if (status && !status.success) {
+    return NextResponse.json({ ok: false, error: "status must be pending, delivered or dead" }, { status: 400 });
+  }
+
+  try {
+    const entries = await getOutboxStore().list();
+    const counts = { pending: 0, delivered: 0, dead: 0 };
+    for (const e of entries) counts[e.status]++;
+
+    return NextResponse.json({
+      ok: true,
+      counts,
+      entries: entries.filter((e) => !status || e.status === status.data).map(toListItem),
+    });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Failed to read outbox" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const denied = checkAdmin(req);
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = ActionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ ok: false, error: "Invalid action", issues: toValidationIssues(parsed.error) }, { status: 400 });
+  }
+
+  try {
+    if (parsed.data.action === "process") {
+      const entries = await processDueEntries();
+      return NextResponse.json({ ok: true, entries: entries.map(toListItem) });
+    }
+
+    const ids = parsed.data.ids ?? (await getOutboxStore().list()).filter((e) => e.status === "dead").map((e) => e.id);
+    const entries: OutboxEntry[] = [];
+    const missing: string[] = [];
+    for (const id of ids) {
+      const entry = await redriveEntry(id);
+      if (entry) entries.push(entry);
+      else missing.push(id);
+    }
+    return NextResponse.json({ ok: true, entries: entries.map(toListItem), missing });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "Outbox action failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { CommentActionSchema, countUnresolved, recordCommentAction } from "@/lib/blueprints/comments";
+import { getBlueprintStore } from "@/lib/blueprints/store";
+import { toValidationIssues } from "@/lib/validation";
+
+const STATUS_BY_REASON = { not_found: 404, thread_not_found: 404, invalid_anchor: 400 } as const;
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const record = await getBlueprintStore().get(id);
+    if (!record) {
+      return NextResponse.json({ ok: false, error: "Blueprint not found" }, { status: 404 });
+    }
+    const threads = record.comments ?? [];
+    return NextResponse.json({ ok: true, id, threads, unresolved: countUnresolved(threads) });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to load comments" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Starts a thread, replies to one, or resolves/unresolves it, depending on `type`. */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const action = CommentActionSchema.safeParse(body);
+  if (!action.success) {
+    return NextResponse.json(
+      { ok: false, error: "Invalid comment", issues: toValidationIssues(action.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await recordCommentAction(id, action.data);
+    if (!result.ok) {
+      return NextResponse.json({ ok: false, error: result.error }, { status: STATUS_BY_REASON[result.reason] });
+    }
+    return NextResponse.json({ ok: true, id, threads: result.threads, unresolved: countUnresolved(result.threads) });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to save comment" },
+      { status: 500 }
+    );
+  }
+}
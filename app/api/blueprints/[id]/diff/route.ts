@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { diffBlueprints } from "@/lib/blueprints/diff";
+import { loadRevisions } from "@/lib/blueprints/load";
+import { toValidationIssues } from "@/lib/validation";
+
+const DiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const searchParams = new URL(req.url).searchParams;
+  const query = DiffQuerySchema.safeParse({
+    from: searchParams.get("from") || undefined,
+    to: searchParams.get("to") || undefined,
+  });
+  if (!query.success) {
+    return NextResponse.json(
+      { ok: false, error: "Invalid revision numbers", issues: toValidationIssues(query.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const revisions = await loadRevisions(id);
+    if (!revisions) {
+      return NextResponse.json({ ok: false, error: "Blueprint not found" }, { status: 404 });
+    }
+
+    // Defaults compare the latest revision with the one before it.
+    const to = query.data.to ?? revisions[revisions.length - 1].revision;
+    const from = query.data.from ?? Math.max(to - 1, 1);
+    const before = revisions.find((r) => r.revision === from);
+    const after = revisions.find((r) => r.revision === to);
+    if (!before || !after) {
+      return NextResponse.json(
+        { ok: false, error: `Revision ${!before ? from : to} not found` },
+        { status: 404 }
+      );
+    }
+
+    const { document: fromDocument, ...fromSummary } = before;
+    const { document: toDocument, ...toSummary } = after;
+    return NextResponse.json({
+      ok: true,
+      id,
+      from: fromSummary,
+      to: toSummary,
+      revisions: revisions.map((r) => r.revision),
+      diff: diffBlueprints(fromDocument, toDocument),
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to compare revisions" },
+      { status: 500 }
+    );
+  }
+}
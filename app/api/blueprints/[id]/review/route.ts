@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { recordReviewAction, ReviewActionSchema, summarizeReview } from "@/lib/blueprints/review";
+import { toValidationIssues } from "@/lib/validation";
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const action = ReviewActionSchema.safeParse(body);
+  if (!action.success) {
+    return NextResponse.json(
+      { ok: false, error: "Invalid review action", issues: toValidationIssues(action.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await recordReviewAction(id, action.data);
+    if (!result.ok) {
+      return result.reason === "not_found"
+        ? NextResponse.json({ ok: false, error: "Blueprint not found" }, { status: 404 })
+        : NextResponse.json({ ok: false, error: result.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ ok: true, id, review: summarizeReview(result.review, result.revision) });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to record review action" },
+      { status: 500 }
+    );
+  }
+}
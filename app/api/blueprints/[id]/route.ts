@@ -0,0 +1,109 @@
+import { after, NextResponse } from "next/server";
+import { z } from "zod";
+import { loadBlueprint } from "@/lib/blueprints/load";
+import { saveRevision } from "@/lib/blueprints/revisions";
+import { parseBlueprint } from "@/lib/blueprints/versions";
+import { withCapabilityWarnings } from "@/lib/intake/capabilities";
+import { blueprintLink, buildIntakeNotification, getNotifiers } from "@/lib/notify/notifier";
+import { attemptDelivery, enqueueNotification, processDueEntries, toDeliveryResult } from "@/lib/notify/outbox";
+import { toValidationIssues } from "@/lib/validation";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const loaded = await loadBlueprint(id);
+    if (!loaded) {
+      return NextResponse.json({ ok: false, error: "Blueprint not found" }, { status: 404 });
+    }
+
+    // Older documents may not satisfy every current rule; still return them so the summary can
+    // render what is there, and report the gaps alongside.
+    return NextResponse.json({
+      ok: true,
+      id: loaded.id,
+      createdAt: loaded.createdAt,
+      upgradedFrom: loaded.upgradedFrom,
+      blueprint: loaded.document,
+      issues: loaded.issues,
+      revision: loaded.revision,
+      revisions: loaded.revisions,
+      review: loaded.review,
+      comments: loaded.comments,
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to load blueprint" },
+      { status: 500 }
+    );
+  }
+}
+
+const ReviseRequestSchema = z.object({
+  blueprint: z.unknown(),
+  author: z.string().trim().min(1, "Author is required").max(100),
+  note: z.string().trim().max(500).optional(),
+  // The revision the edit started from; a newer one on the server means someone else saved first.
+  baseRevision: z.number().int().min(1).optional(),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const request = ReviseRequestSchema.safeParse(body);
+  if (!request.success) {
+    return NextResponse.json(
+      { ok: false, error: "Invalid revision", issues: toValidationIssues(request.error) },
+      { status: 400 }
+    );
+  }
+  const parsed = parseBlueprint(request.data.blueprint);
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: "Invalid blueprint", issues: parsed.issues }, { status: 400 });
+  }
+  // Unlike new intakes, revisions keep unsupported combinations; the blueprint may predate the catalog.
+  const blueprint = withCapabilityWarnings(parsed.blueprint);
+
+  try {
+    const notifiers = getNotifiers();
+    const { author, note, baseRevision } = request.data;
+    const saved = await saveRevision(id, blueprint, { author, note: note || null, baseRevision });
+    if (!saved.ok) {
+      return saved.reason === "not_found"
+        ? NextResponse.json({ ok: false, error: "Blueprint not found" }, { status: 404 })
+        : NextResponse.json(
+            {
+              ok: false,
+              error: `Blueprint was changed by someone else (now at revision ${saved.currentRevision})`,
+              currentRevision: saved.currentRevision,
+            },
+            { status: 409 }
+          );
+    }
+
+    const { revision } = saved;
+    const entries = await enqueueNotification(
+      id,
+      buildIntakeNotification(id, blueprint, blueprintLink(id), revision),
+      notifiers.map((n) => n.channel)
+    );
+    const deliveries = (await Promise.all(entries.map((e) => attemptDelivery(e)))).map(toDeliveryResult);
+    after(async () => {
+      await processDueEntries();
+    });
+
+    return NextResponse.json({ ok: true, id, revision: revision.revision, deliveries });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to save revision" },
+      { status: 500 }
+    );
+  }
+}
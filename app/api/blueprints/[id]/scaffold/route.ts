@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { loadBlueprint } from "@/lib/blueprints/load";
+import { generateScaffold, scaffoldName } from "@/lib/scaffold/generate";
+import { createZip } from "@/lib/zip";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const loaded = await loadBlueprint(id);
+    if (!loaded) {
+      return NextResponse.json({ ok: false, error: "Blueprint not found" }, { status: 404 });
+    }
+    if (!loaded.blueprint) {
+      return NextResponse.json(
+        { ok: false, error: "Blueprint does not pass current validation", issues: loaded.issues },
+        { status: 422 }
+      );
+    }
+
+    // Everything sits under one top-level folder so the archive unpacks cleanly.
+    const name = scaffoldName(loaded.blueprint);
+    const files = generateScaffold(loaded.blueprint, loaded.id);
+    const zip = createZip(files.map((f) => ({ path: `${name}/${f.path}`, content: f.content })));
+
+    return new Response(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${name}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to generate scaffold" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { loadBlueprint } from "@/lib/blueprints/load";
+import { createSampleEvents } from "@/lib/simulator/fixtures";
+import { simulateBlueprint, SimulatedEventSchema } from "@/lib/simulator/simulate";
+import { toValidationIssues } from "@/lib/validation";
+
+const SimulateRequestSchema = z.object({
+  events: z.array(SimulatedEventSchema).min(1).max(200).optional(),
+});
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  // An empty body runs the built-in sample script.
+  const text = await req.text();
+  let body: unknown = {};
+  if (text.trim()) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+    }
+  }
+
+  const request = SimulateRequestSchema.safeParse(body);
+  if (!request.success) {
+    return NextResponse.json(
+      { ok: false, error: "Invalid events", issues: toValidationIssues(request.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const loaded = await loadBlueprint(id);
+    if (!loaded) {
+      return NextResponse.json({ ok: false, error: "Blueprint not found" }, { status: 404 });
+    }
+    if (!loaded.blueprint) {
+      return NextResponse.json(
+        { ok: false, error: "Blueprint does not pass current validation", issues: loaded.issues },
+        { status: 422 }
+      );
+    }
+
+    const events = request.data.events ?? createSampleEvents(loaded.blueprint);
+    return NextResponse.json({ ok: true, ...simulateBlueprint(loaded.blueprint, events) });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Simulation failed" },
+      { status: 500 }
+    );
+  }
+}
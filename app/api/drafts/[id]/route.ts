@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { DraftInputSchema, getDraftStore, MAX_DRAFT_BYTES } from "@/lib/intake/draft-store";
+import { toValidationIssues } from "@/lib/validation";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const draft = await getDraftStore().get(id);
+    if (!draft) {
+      return NextResponse.json({ ok: false, error: "Draft not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, draft });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to load draft" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  const text = await req.text();
+  if (text.length > MAX_DRAFT_BYTES) {
+    return NextResponse.json({ ok: false, error: "Draft is too large" }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = DraftInputSchema.safeParse(body);
+  if (!input.success) {
+    return NextResponse.json(
+      { ok: false, error: "Invalid draft", issues: toValidationIssues(input.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getDraftStore();
+    const existing = await store.get(id);
+    if (!existing) {
+      return NextResponse.json({ ok: false, error: "Draft not found" }, { status: 404 });
+    }
+    const updatedAt = new Date().toISOString();
+    await store.put({ ...existing, ...input.data, updatedAt });
+    return NextResponse.json({ ok: true, id, updatedAt });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to save draft" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    await getDraftStore().delete(id);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to delete draft" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { DraftInputSchema, getDraftStore, MAX_DRAFT_BYTES } from "@/lib/intake/draft-store";
+import { toValidationIssues } from "@/lib/validation";
+
+/** Creates a server copy of a wizard draft; its id is the resume link. */
+export async function POST(req: Request) {
+  const text = await req.text();
+  if (text.length > MAX_DRAFT_BYTES) {
+    return NextResponse.json({ ok: false, error: "Draft is too large" }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const input = DraftInputSchema.safeParse(body);
+  if (!input.success) {
+    return NextResponse.json(
+      { ok: false, error: "Invalid draft", issues: toValidationIssues(input.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const draft = { ...input.data, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    await getDraftStore().put(draft);
+    return NextResponse.json({ ok: true, id: draft.id, updatedAt: draft.updatedAt });
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, error: e instanceof Error ? e.message : "Failed to save draft" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,56 +1,89 @@
-﻿import { NextResponse } from "next/server";
-import { Resend } from "resend";
+﻿import { after, NextResponse } from "next/server";
+import { createInitialRecord } from "@/lib/blueprints/revisions";
+import { getBlueprintStore } from "@/lib/blueprints/store";
+import { parseBlueprint } from "@/lib/blueprints/versions";
+import { isValidIdempotencyKey, runIdempotent } from "@/lib/idempotency";
+import { capabilityIssues } from "@/lib/intake/capabilities";
+import { blueprintLink, buildIntakeNotification, getNotifiers } from "@/lib/notify/notifier";
+import { attemptDelivery, enqueueNotification, processDueEntries, toDeliveryResult } from "@/lib/notify/outbox";
 
-export async function POST(req: Request) {
+type IntakeResult = { status: number; body: Record<string, unknown> };
+
+async function submitIntake(rawBody: string): Promise<IntakeResult> {
+  let body: unknown;
   try {
-    const body = await req.json();
-    const apiKey = process.env.RESEND_API_KEY;
-    const receiver = process.env.INTAKE_RECEIVER_EMAIL;
+    body = JSON.parse(rawBody);
+  } catch {
+    return { status: 400, body: { ok: false, error: "Request body must be valid JSON" } };
+  }
 
-    if (!apiKey) {
-      throw new Error("Missing RESEND_API_KEY");
-    }
-    if (!receiver) {
-      throw new Error("Missing INTAKE_RECEIVER_EMAIL");
-    }
+  const parsed = parseBlueprint(body);
+  if (!parsed.ok) {
+    return { status: 400, body: { ok: false, error: "Invalid blueprint", issues: parsed.issues } };
+  }
+  const blueprint = parsed.blueprint;
+  const unsupported = capabilityIssues(blueprint);
+  if (unsupported.length > 0) {
+    return { status: 400, body: { ok: false, error: "Unsupported platform combination", issues: unsupported } };
+  }
 
-    const resend = new Resend(apiKey);
-
-    const crm = body?.systems?.crm ?? body?.crm ?? "N/A";
-    const contactCenter = body?.systems?.contactCenterPlatform ?? body?.systems?.contactCenter ?? body?.contactCenterPlatform ?? body?.contactCenter ?? "N/A";
-    const agentWorkspace = body?.systems?.agentWorkspace ?? body?.agentWorkspace ?? "N/A";
-    const triggerEvent = body?.trigger?.event ?? body?.triggerEvent ?? "N/A";
-    const triggerChannel = body?.trigger?.channel ?? body?.channel ?? "N/A";
-    const triggerDirection = body?.trigger?.direction ?? body?.direction ?? "N/A";
-
-    const text = [
-      "New CRM <-> Contact Center Intake",
-      "",
-      `CRM: ${typeof crm === "string" ? crm : JSON.stringify(crm)}`,
-      `Contact Center Platform: ${typeof contactCenter === "string" ? contactCenter : JSON.stringify(contactCenter)}`,
-      `Agent Workspace: ${typeof agentWorkspace === "string" ? agentWorkspace : JSON.stringify(agentWorkspace)}`,
-      `Trigger event: ${typeof triggerEvent === "string" ? triggerEvent : JSON.stringify(triggerEvent)}`,
-      `Trigger channel: ${typeof triggerChannel === "string" ? triggerChannel : JSON.stringify(triggerChannel)}`,
-      `Trigger direction: ${typeof triggerDirection === "string" ? triggerDirection : JSON.stringify(triggerDirection)}`,
-      "",
-      "Full intake JSON:",
-      JSON.stringify(body, null, 2),
-    ].join("\n");
-
-    await resend.emails.send({
-      from: "Micro-SI Intake <onboarding@resend.dev>",
-      to: receiver,
-      subject: "New CRM <-> Contact Center Intake Received",
-      text,
-    });
+  // Resolve channels first so a misconfigured deployment fails before anything is stored.
+  const notifiers = getNotifiers();
+
+  const id = crypto.randomUUID();
+  await getBlueprintStore().put(createInitialRecord(id, blueprint));
+  const entries = await enqueueNotification(
+    id,
+    buildIntakeNotification(id, blueprint, blueprintLink(id)),
+    notifiers.map((n) => n.channel)
+  );
+
+  // Blueprint and outbox are saved at this point, so a failed send is retried later instead of failing the request.
+  const deliveries = (await Promise.all(entries.map((e) => attemptDelivery(e)))).map(toDeliveryResult);
 
-    return NextResponse.json({
+  // Piggyback retries of earlier failures on live traffic; a cron hitting the admin endpoint covers quiet periods.
+  after(async () => {
+    await processDueEntries();
+  });
+
+  return {
+    status: 200,
+    body: {
       ok: true,
+      id,
       message: "Thanks - intake received.",
+      deliveries,
+    },
+  };
+}
+
+export async function POST(req: Request) {
+  try {
+    const rawBody = await req.text();
+    // Optional: without a key every request is a new submission, as before.
+    const key = req.headers.get("idempotency-key");
+    if (key === null) {
+      const result = await submitIntake(rawBody);
+      return NextResponse.json(result.body, { status: result.status });
+    }
+    if (!isValidIdempotencyKey(key)) {
+      return NextResponse.json({ ok: false, error: "Idempotency-Key must be 1-255 printable characters" }, { status: 400 });
+    }
+
+    const result = await runIdempotent(key, rawBody, () => submitIntake(rawBody));
+    if (result.kind === "mismatch") {
+      return NextResponse.json(
+        { ok: false, error: "Idempotency-Key was already used for a different submission" },
+        { status: 422 }
+      );
+    }
+    return NextResponse.json(result.body, {
+      status: result.status,
+      headers: result.kind === "replayed" ? { "Idempotent-Replayed": "true" } : undefined,
     });
-  } catch (e: any) {
+  } catch (e) {
     return NextResponse.json(
-      { ok: false, error: e?.message || "Failed to send intake email" },
+      { ok: false, error: e instanceof Error ? e.message : "Failed to submit intake" },
       { status: 500 }
     );
   }
@@ -0,0 +1,157 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { BlueprintRevisionSummary } from "@/lib/blueprints/revisions";
+import type { BlueprintDiff, DiffEntry } from "@/lib/blueprints/diff";
+
+type DiffResponse = {
+  from: BlueprintRevisionSummary;
+  to: BlueprintRevisionSummary;
+  revisions: number[];
+  diff: BlueprintDiff;
+};
+
+const KIND_CLASS: Record<DiffEntry["kind"], string> = {
+  added: "text-emerald-300",
+  removed: "text-red-300",
+  changed: "text-amber-200",
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function revisionLabel(r: BlueprintRevisionSummary): string {
+  return `Revision ${r.revision} - ${new Date(r.createdAt).toLocaleString()}${r.author ? ` by ${r.author}` : ""}`;
+}
+
+export default function BlueprintDiffPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { id } = use(params);
+  const { from, to } = use(searchParams);
+  const router = useRouter();
+  const [data, setData] = useState<DiffResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query = new URLSearchParams();
+    if (from) query.set("from", from);
+    if (to) query.set("to", to);
+
+    fetch(`/api/blueprints/${encodeURIComponent(id)}/diff?${query}`)
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok || !body?.ok) throw new Error(body?.error || "Failed to compare revisions");
+        if (cancelled) return;
+        setData(body as DiffResponse);
+        setError(null);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to compare revisions");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, from, to]);
+
+  function select(next: { from: number; to: number }) {
+    router.replace(`/blueprint/${encodeURIComponent(id)}/diff?from=${next.from}&to=${next.to}`);
+  }
+
+  return (
+    <main className="min-h-screen p-6 flex justify-center bg-neutral-950 text-neutral-50">
+      <div className="w-full max-w-4xl space-y-6">
+        <header className="space-y-2">
+          <p className="text-xs uppercase tracking-[0.2em] text-neutral-500">Blueprint Changes</p>
+          <h1 className="text-3xl font-semibold">Compare revisions</h1>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-neutral-400">
+            <span>Blueprint id: {id}</span>
+            <Link href={`/blueprint/${encodeURIComponent(id)}`} className="text-neutral-200 hover:text-white underline underline-offset-4">
+              Back to blueprint
+            </Link>
+          </div>
+        </header>
+
+        {error && (
+          <div className="rounded-xl border border-red-900 bg-red-950/40 p-4 text-sm text-red-200">{error}</div>
+        )}
+
+        {!data && !error && (
+          <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-6 text-sm text-neutral-200">Loading...</div>
+        )}
+
+        {data && (
+          <>
+            <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6 space-y-3">
+              <div className="grid gap-4 md:grid-cols-2">
+                {(["from", "to"] as const).map((side) => (
+                  <div key={side}>
+                    <label className="text-xs uppercase text-neutral-500">{side === "from" ? "From" : "To"}</label>
+                    <select
+                      className="mt-1 w-full rounded-lg border border-neutral-800 bg-neutral-900 p-2 text-sm text-neutral-100"
+                      value={data[side].revision}
+                      onChange={(e) =>
+                        select({ from: data.from.revision, to: data.to.revision, [side]: Number(e.target.value) })
+                      }
+                    >
+                      {data.revisions.map((r) => (
+                        <option key={r} value={r}>
+                          Revision {r}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-neutral-500">{revisionLabel(data[side])}</p>
+                    {data[side].note && <p className="text-xs text-neutral-400">{data[side].note}</p>}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {data.diff.total === 0 ? (
+              <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6 text-sm text-neutral-300">
+                No differences between these revisions.
+              </section>
+            ) : (
+              data.diff.sections.map((section) => (
+                <section key={section.title} className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6">
+                  <div className="text-xs uppercase text-neutral-500">{section.title}</div>
+                  <table className="mt-2 w-full text-left text-sm">
+                    <thead className="text-xs text-neutral-500">
+                      <tr>
+                        <th className="py-1 pr-4 font-normal">Field</th>
+                        <th className="py-1 pr-4 font-normal">Change</th>
+                        <th className="py-1 pr-4 font-normal">Before</th>
+                        <th className="py-1 font-normal">After</th>
+                      </tr>
+                    </thead>
+                    <tbody className="align-top">
+                      {section.entries.map((entry, index) => (
+                        <tr key={`${entry.path}-${index}`} className="border-t border-neutral-800">
+                          <td className="py-1 pr-4 font-mono text-xs text-neutral-300">{entry.path}</td>
+                          <td className={`py-1 pr-4 ${KIND_CLASS[entry.kind]}`}>{entry.kind}</td>
+                          <td className="py-1 pr-4 break-all text-neutral-400">{formatValue(entry.from)}</td>
+                          <td className="py-1 break-all text-neutral-100">{formatValue(entry.to)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              ))
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
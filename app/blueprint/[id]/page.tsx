@@ -1,6 +1,17 @@
 ﻿"use client";
 
 import { use, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { anchorPaths, sectionTitleFor } from "@/lib/blueprints/diff";
+import type { ReviewSummary } from "@/lib/blueprints/review";
+import { REVIEW_ROLE_LABELS } from "@/lib/blueprints/review-labels";
+import type { BlueprintRevisionSummary } from "@/lib/blueprints/revisions";
+import type { CommentThread, ReviewAuditEvent, ReviewRole, ReviewStatus } from "@/lib/blueprints/store";
+import { describeOutcome, type Disposition } from "@/lib/intake/dispositions";
+import { CONSENT_METHOD_LABELS, CONSENT_REGION_LABELS, REDACTION_LABELS, RETENTION_LABELS, type RecordingPolicy } from "@/lib/intake/recording";
+import { describeTransform, getSourceAttributes, type FieldMapping } from "@/lib/intake/field-mapping";
+import { getSampleValues, renderTemplate } from "@/lib/intake/subject-template";
+import type { SimulationResult, SimulationStep } from "@/lib/simulator/simulate";
 
 const FEEDBACK_URL = "https://forms.gle/FU2wvkb9K8RPVLfU6";
 
@@ -11,41 +22,40 @@ function formatValue(value: unknown): string {
   return String(value);
 }
 
-function pickFirst<T>(...values: Array<T | undefined | null>): T | undefined {
-  for (const v of values) {
-    if (v !== undefined && v !== null && v !== "") return v as T;
-  }
-  return undefined;
-}
-
+// Blueprints arrive upgraded to the current version; fields stay optional because older
+// documents that fail current validation are still returned for display.
 type BlueprintData = {
+  version?: string;
   systems?: {
     crm?: string;
-    contactCenterPlatform?: string;
     contactCenter?: string;
     agentWorkspace?: string;
-    agentDesktop?: string;
   };
   trigger?: {
-    event?: string;
-    channel?: string;
+    events?: Array<{ name: string; lifecycle: string; action: string }>;
+    channels?: Array<{ type: string; attachTranscript?: boolean; threadIdField?: string | null }>;
     direction?: string;
   };
   crmActivity?: {
     objectType?: string;
     subjectTemplate?: string;
     associations?: string[];
+    fieldMappings?: FieldMapping[];
   };
+  dispositions?: Disposition[];
   matching?: {
-    strategy?: string[] | string;
-    phoneNormalization?: string;
-    normalization?: string;
-    externalIdField?: string;
+    strategy?: string[];
+    phoneNormalization?: {
+      rule?: string;
+      defaultCountry?: string;
+      stripExtension?: boolean;
+      otherRule?: string | null;
+    };
+    externalIdField?: string | null;
   };
   ownership?: {
     ownerStrategy?: string;
-    callIdField?: string;
-    interactionIdField?: string;
+    interactionIdField?: string | null;
   };
   reliability?: {
     expectedVolume?: string;
@@ -55,10 +65,22 @@ type BlueprintData = {
   security?: {
     dataSensitivity?: string;
     logging?: string;
+    recording?: RecordingPolicy;
   };
+  crmFieldCatalog?: {
+    source: { fileName: string };
+    importedAt: string;
+    objects: Array<{ name: string; properties: unknown[] }>;
+    owners: unknown[];
+  } | null;
   [key: string]: unknown;
 };
 
+function toAttachmentLine(attached: boolean | undefined, retention: RecordingPolicy["recordingRetention"] | undefined): string {
+  if (!attached) return "Not attached";
+  return retention ? `Attached, kept ${RETENTION_LABELS[retention].toLowerCase()}` : "Attached";
+}
+
 function toMatchingLabel(value: string): string {
   switch (value) {
     case "ani_phone_match":
@@ -70,6 +92,69 @@ function toMatchingLabel(value: string): string {
   }
 }
 
+function toChannelLine(channels?: NonNullable<BlueprintData["trigger"]>["channels"]): string {
+  if (!channels || channels.length === 0) return "N/A";
+
+  return channels
+    .map((c) => {
+      const label = c.type === "sms" ? "SMS" : c.type.charAt(0).toUpperCase() + c.type.slice(1);
+      if (c.attachTranscript) return `${label} (transcript attached)`;
+      if (c.threadIdField) return `${label} (thread ID -> ${c.threadIdField})`;
+      return label;
+    })
+    .join(", ");
+}
+
+function toLifecycleLabel(value: string): string {
+  switch (value) {
+    case "interaction.accepted":
+      return "Interaction accepted";
+    case "interaction.ended":
+      return "Interaction ended";
+    case "interaction.wrap_up":
+      return "Wrap-up completed";
+    case "interaction.missed":
+      return "Missed call";
+    case "interaction.abandoned":
+      return "Abandoned call";
+    case "voicemail.left":
+      return "Voicemail left";
+    case "interaction.transferred":
+      return "Interaction transferred";
+    default:
+      return value;
+  }
+}
+
+function toEventActionLabel(value: string): string {
+  switch (value) {
+    case "create_activity":
+      return "Create CRM activity";
+    case "update_activity":
+      return "Update the interaction's CRM activity";
+    case "create_task":
+      return "Create follow-up task";
+    default:
+      return value;
+  }
+}
+
+function toPhoneNormalizationLine(value: NonNullable<BlueprintData["matching"]>["phoneNormalization"]): string {
+  if (!value?.rule) return "N/A";
+
+  const extension = value.stripExtension ? "extensions stripped" : "extensions kept";
+  switch (value.rule) {
+    case "e164":
+      return `E.164 (default country ${value.defaultCountry ?? "N/A"}, ${extension})`;
+    case "as_is":
+      return `Keep as-is (${extension})`;
+    case "other":
+      return `Custom: ${value.otherRule ?? "not described"} (${extension})`;
+    default:
+      return value.rule;
+  }
+}
+
 function toOwnerStrategyLabel(value: string): string {
   switch (value) {
     case "map_agent_email":
@@ -83,12 +168,60 @@ function toOwnerStrategyLabel(value: string): string {
   }
 }
 
-function toCustomerMatchingLine(strategy?: string[] | string): string {
-  if (!strategy || (Array.isArray(strategy) && strategy.length === 0)) {
+const SIMULATION_STATUS_CLASS: Record<SimulationStep["status"], string> = {
+  created: "text-emerald-300",
+  updated: "text-sky-300",
+  skipped: "text-neutral-400",
+};
+
+const REVIEW_STATUS_BADGE: Record<ReviewStatus, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "border-neutral-500/40 bg-neutral-500/10 text-neutral-200" },
+  in_review: { label: "In Review", className: "border-sky-500/40 bg-sky-500/10 text-sky-200" },
+  approved: { label: "Approved", className: "border-emerald-500/40 bg-emerald-500/10 text-emerald-200" },
+  changes_requested: { label: "Changes Requested", className: "border-amber-500/40 bg-amber-500/10 text-amber-200" },
+};
+
+const REVIEW_BUTTON_CLASS =
+  "rounded-lg border border-neutral-700 px-4 py-2 text-sm text-neutral-100 hover:border-neutral-500 disabled:opacity-50";
+
+const AUDIT_ACTION_LABELS: Record<ReviewAuditEvent["action"], string> = {
+  submitted: "Submitted for review",
+  signed_off: "Signed off",
+  changes_requested: "Requested changes",
+  approved: "Approved",
+  reopened: "Reopened",
+  revised: "Edited (review restarted)",
+};
+
+function isUnder(anchor: string, prefix: string): boolean {
+  return anchor === prefix || anchor.startsWith(`${prefix}.`) || anchor.startsWith(`${prefix}[`);
+}
+
+function CardHeading({ title, anchor, threads, onComment }: { title: string; anchor: string; threads: CommentThread[]; onComment: (anchor: string) => void }) {
+  const open = threads.filter((t) => !t.resolved && isUnder(t.anchor, anchor)).length;
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="text-xs uppercase text-neutral-500">{title}</div>
+      <button type="button" onClick={() => onComment(anchor)} className="text-xs text-neutral-500 hover:text-neutral-200">
+        {open > 0 ? `${open} open comment${open === 1 ? "" : "s"}` : "Comment"}
+      </button>
+    </div>
+  );
+}
+
+function toMatchLine(match: SimulationStep["match"]): string {
+  if (!match) return "-";
+  if (match.outcome === "unmatched") return "No contact";
+  const via = match.by === "external_id" ? "external ID" : "phone";
+  if (match.outcome === "multiple") return `${match.contactName} (1 of ${match.candidates.length}, via ${via})`;
+  return `${match.contactName} (via ${via})`;
+}
+
+function toCustomerMatchingLine(values?: string[]): string {
+  if (!values || values.length === 0) {
     return "Not specified";
   }
 
-  const values = Array.isArray(strategy) ? strategy : [strategy];
   const hasPhone = values.includes("ani_phone_match");
   const hasExternal = values.includes("external_id");
 
@@ -109,55 +242,149 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
   const { id } = use(params);
   const [data, setData] = useState<BlueprintData | null>(null);
   const [missing, setMissing] = useState(false);
+  const [revisions, setRevisions] = useState<BlueprintRevisionSummary[]>([]);
+  const [review, setReview] = useState<ReviewSummary | null>(null);
+  const [reviewer, setReviewer] = useState("");
+  const [reviewRole, setReviewRole] = useState<ReviewRole>("revops");
+  const [reviewComment, setReviewComment] = useState("");
+  const [reviewBusy, setReviewBusy] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [commentAnchor, setCommentAnchor] = useState("systems");
+  const [commentBody, setCommentBody] = useState("");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+  const [commentBusy, setCommentBusy] = useState(false);
+  const [commentError, setCommentError] = useState<string | null>(null);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [customEvents, setCustomEvents] = useState("");
 
   useEffect(() => {
-    const key = `micro_si_blueprint_${id}`;
-    const raw = localStorage.getItem(key);
-    if (!raw) {
-      setMissing(true);
-      return;
-    }
-    try {
-      const parsed = JSON.parse(raw) as BlueprintData;
-      setData(parsed);
-    } catch {
-      setMissing(true);
-    }
+    let cancelled = false;
+
+    fetch(`/api/blueprints/${encodeURIComponent(id)}`)
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok || !body?.ok) throw new Error(body?.error || "Blueprint not found");
+        if (cancelled) return;
+        setData(body.blueprint as BlueprintData);
+        setRevisions(body.revisions ?? []);
+        setReview(body.review ?? null);
+        setThreads(body.comments ?? []);
+        setReviewer((current) => current || (localStorage.getItem("micro_si_author") ?? ""));
+      })
+      .catch(() => {
+        if (!cancelled) setMissing(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [id]);
 
-  const systems = useMemo(() => {
-    const crm = pickFirst(data?.systems?.crm, (data as any)?.crm);
-    const contactCenter = pickFirst(
-      data?.systems?.contactCenterPlatform,
-      data?.systems?.contactCenter,
-      (data as any)?.contactCenterPlatform,
-      (data as any)?.contactCenter
-    );
-    const agentWorkspace = pickFirst(
-      data?.systems?.agentWorkspace,
-      data?.systems?.agentDesktop,
-      (data as any)?.agentWorkspace,
-      (data as any)?.agentDesktop
-    );
+  async function runSimulation() {
+    setSimulating(true);
+    setSimulationError(null);
+    try {
+      let payload = "";
+      if (customEvents.trim()) {
+        try {
+          payload = JSON.stringify({ events: JSON.parse(customEvents) });
+        } catch {
+          throw new Error("Custom events must be a JSON array");
+        }
+      }
+      const res = await fetch(`/api/blueprints/${encodeURIComponent(id)}/simulate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: payload,
+      });
+      const body = await res.json();
+      if (!res.ok || !body?.ok) {
+        const details = Array.isArray(body?.issues)
+          ? body.issues.map((i: { field: string; message: string }) => `${i.field}: ${i.message}`).join("; ")
+          : "";
+        throw new Error([body?.error || "Simulation failed", details].filter(Boolean).join(" - "));
+      }
+      setSimulation({ steps: body.steps, totals: body.totals });
+    } catch (e) {
+      setSimulation(null);
+      setSimulationError(e instanceof Error ? e.message : "Simulation failed");
+    } finally {
+      setSimulating(false);
+    }
+  }
 
-    return { crm, contactCenter, agentWorkspace };
-  }, [data]);
+  async function sendReviewAction(type: "submit" | "sign_off" | "request_changes" | "approve" | "reopen") {
+    setReviewBusy(true);
+    setReviewError(null);
+    try {
+      const res = await fetch(`/api/blueprints/${encodeURIComponent(id)}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type, actor: reviewer, role: reviewRole, comment: reviewComment || undefined }),
+      });
+      const body = await res.json();
+      if (!res.ok || !body?.ok) {
+        const details = Array.isArray(body?.issues)
+          ? body.issues.map((i: { message: string }) => i.message).join("; ")
+          : "";
+        throw new Error([body?.error || "Review action failed", details].filter(Boolean).join(" - "));
+      }
+      setReview(body.review);
+      setReviewComment("");
+      localStorage.setItem("micro_si_author", reviewer.trim());
+    } catch (e) {
+      setReviewError(e instanceof Error ? e.message : "Review action failed");
+    } finally {
+      setReviewBusy(false);
+    }
+  }
 
-  const ownership = useMemo(() => {
-    const ownerStrategy = pickFirst(data?.ownership?.ownerStrategy, (data as any)?.ownerStrategy);
-    const interactionIdField = pickFirst(
-      data?.ownership?.interactionIdField,
-      data?.ownership?.callIdField,
-      (data as any)?.interactionIdField,
-      (data as any)?.callIdField
-    );
+  async function sendCommentAction(action: Record<string, unknown>): Promise<boolean> {
+    setCommentBusy(true);
+    setCommentError(null);
+    try {
+      const res = await fetch(`/api/blueprints/${encodeURIComponent(id)}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...action, author: reviewer }),
+      });
+      const body = await res.json();
+      if (!res.ok || !body?.ok) {
+        const details = Array.isArray(body?.issues)
+          ? body.issues.map((i: { message: string }) => i.message).join("; ")
+          : "";
+        throw new Error([body?.error || "Failed to save comment", details].filter(Boolean).join(" - "));
+      }
+      setThreads(body.threads);
+      localStorage.setItem("micro_si_author", reviewer.trim());
+      return true;
+    } catch (e) {
+      setCommentError(e instanceof Error ? e.message : "Failed to save comment");
+      return false;
+    } finally {
+      setCommentBusy(false);
+    }
+  }
 
-    return { ownerStrategy, interactionIdField };
-  }, [data]);
+  function commentOn(anchor: string) {
+    setCommentAnchor(anchor);
+    document.getElementById("comments")?.scrollIntoView({ behavior: "smooth" });
+  }
 
-  const duplicatePreventionKey = useMemo(() => {
-    return pickFirst(data?.reliability?.idempotencyKey, ownership.interactionIdField);
-  }, [data, ownership.interactionIdField]);
+  const anchorOptions = useMemo(() => anchorPaths(data), [data]);
+  const unresolvedComments = threads.filter((t) => !t.resolved).length;
+  const visibleThreads = threads.filter((t) => showResolved || !t.resolved);
+  const currentRevision = revisions.length > 0 ? revisions[revisions.length - 1].revision : 1;
+  const systems = data?.systems ?? {};
+  const ownership = data?.ownership ?? {};
+  const subjectTemplate = data?.crmActivity?.subjectTemplate;
+  const subjectPreview = subjectTemplate ? renderTemplate(subjectTemplate, getSampleValues(systems.contactCenter ?? "other")) : undefined;
+  const sourceLabels = new Map(getSourceAttributes(systems.contactCenter ?? "other").map((a) => [a.name, a.label]));
+  const duplicatePreventionKey = data?.reliability?.idempotencyKey || ownership.interactionIdField;
 
   const operationalGuarantees = useMemo(() => {
     const guarantees: string[] = [];
@@ -170,7 +397,7 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
       guarantees.push(`Uses duplicate prevention key ${idempotencyKey} to avoid double-logging the same interaction`);
     }
 
-    if (data?.trigger?.event || latencyTarget) {
+    if (data?.trigger?.events?.some((e) => e.lifecycle === "interaction.accepted") || latencyTarget) {
       const target = latencyTarget ? ` (target: ${latencyTarget})` : "";
       guarantees.push(`Agent context appears on interaction acceptance${target}`);
     }
@@ -185,12 +412,13 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
       guarantees.push("No payload logging");
     }
 
-    if (ownership.ownerStrategy) {
-      guarantees.push(toOwnerStrategyLabel(ownership.ownerStrategy));
+    const ownerStrategy = data?.ownership?.ownerStrategy;
+    if (ownerStrategy) {
+      guarantees.push(toOwnerStrategyLabel(ownerStrategy));
     }
 
     return guarantees;
-  }, [data, ownership.ownerStrategy]);
+  }, [data]);
 
   if (missing) {
     return (
@@ -199,7 +427,7 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
           <h1 className="text-2xl font-semibold">Blueprint Summary</h1>
           <div className="rounded-xl border border-neutral-800 bg-neutral-900/40 p-6">
             <p className="text-sm text-neutral-200">
-              Blueprint not found in this browser. Please re-submit the intake from this device to regenerate the blueprint.
+              Blueprint not found. Check that the link is complete, or re-submit the intake to generate a new blueprint.
             </p>
             <a href="/" className="mt-4 inline-flex items-center rounded-lg border border-neutral-700 px-3 py-2 text-sm text-neutral-100 hover:border-neutral-500">
               Return to intake
@@ -227,13 +455,24 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
           <p className="text-xs uppercase tracking-[0.2em] text-neutral-500">Blueprint Summary</p>
           <div className="flex flex-wrap items-center gap-3">
             <h1 className="text-3xl font-semibold">CRM <span className="text-neutral-400">&lt;-&gt;</span> Contact Center Blueprint</h1>
-            <span className="rounded-full border border-amber-500/40 bg-amber-500/10 px-3 py-1 text-xs font-medium text-amber-200">Status: Draft (for review)</span>
+            {review && (
+              <span className={`rounded-full border px-3 py-1 text-xs font-medium ${REVIEW_STATUS_BADGE[review.status].className}`}>
+                Status: {REVIEW_STATUS_BADGE[review.status].label}
+              </span>
+            )}
           </div>
           <p className="text-sm text-neutral-400">
             This blueprint defines how your CRM and Contact Center work together when an agent accepts an interaction — including customer matching, CRM activity logging, agent context, reliability, and logging posture.
           </p>
           <div className="flex flex-wrap items-center gap-3 text-sm text-neutral-400">
             <span>Blueprint id: {id}</span>
+            {revisions.length > 0 && <span>Revision {revisions[revisions.length - 1].revision}</span>}
+            <a href="#comments" className={unresolvedComments > 0 ? "text-amber-200 hover:text-white" : "hover:text-white"}>
+              {unresolvedComments} unresolved comment{unresolvedComments === 1 ? "" : "s"}
+            </a>
+            <Link href={`/?edit=${encodeURIComponent(id)}`} className="text-neutral-200 hover:text-white underline underline-offset-4">
+              Edit this blueprint
+            </Link>
             <a href="/" className="text-neutral-200 hover:text-white underline underline-offset-4">
               Back to intake
             </a>
@@ -255,7 +494,7 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
         <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6 space-y-6">
           <div className="grid gap-4 md:grid-cols-3">
             <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
-              <div className="text-xs uppercase text-neutral-500">Connected Systems</div>
+              <CardHeading title="Connected Systems" anchor="systems" threads={threads} onComment={commentOn} />
               <div className="mt-2 space-y-2 text-sm">
                 <div>CRM system: <span className="text-neutral-200">{formatValue(systems.crm)}</span></div>
                 <div>Contact center platform: <span className="text-neutral-200">{formatValue(systems.contactCenter)}</span></div>
@@ -264,38 +503,116 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
             </div>
 
             <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
-              <div className="text-xs uppercase text-neutral-500">Trigger</div>
+              <CardHeading title="Trigger" anchor="trigger" threads={threads} onComment={commentOn} />
               <div className="mt-2 space-y-2 text-sm">
-                <div>Interaction event: <span className="text-neutral-200">{formatValue(data.trigger?.event)}</span></div>
-                <div>Channel (if any): <span className="text-neutral-200">{formatValue(data.trigger?.channel)}</span></div>
+                <div>Interaction events: <span className="text-neutral-200">{formatValue(data.trigger?.events?.map((e) => toLifecycleLabel(e.lifecycle)))}</span></div>
+                <div>Channels: <span className="text-neutral-200">{toChannelLine(data.trigger?.channels)}</span></div>
                 <div>Direction: <span className="text-neutral-200">{formatValue(data.trigger?.direction)}</span></div>
               </div>
             </div>
 
             <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
-              <div className="text-xs uppercase text-neutral-500">CRM Activity Logging</div>
+              <CardHeading title="CRM Activity Logging" anchor="crmActivity" threads={threads} onComment={commentOn} />
               <div className="mt-2 space-y-2 text-sm">
                 <div>Activity type: <span className="text-neutral-200">{formatValue(data.crmActivity?.objectType)}</span></div>
-                <div>Activity subject: <span className="text-neutral-200">{formatValue(data.crmActivity?.subjectTemplate)}</span></div>
+                <div>Activity subject: <span className="text-neutral-200">{formatValue(subjectTemplate)}</span></div>
+                <div>Example subject: <span className="text-neutral-200">{formatValue(subjectPreview)}</span></div>
                 <div>Links to: <span className="text-neutral-200">{formatValue(data.crmActivity?.associations)}</span></div>
               </div>
             </div>
           </div>
 
+          <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+            <CardHeading title="Event Actions" anchor="trigger.events" threads={threads} onComment={commentOn} />
+            <table className="mt-2 w-full text-left text-sm">
+              <thead className="text-xs text-neutral-500">
+                <tr>
+                  <th className="py-1 pr-4 font-normal">Event</th>
+                  <th className="py-1 pr-4 font-normal">Platform event</th>
+                  <th className="py-1 font-normal">CRM action</th>
+                </tr>
+              </thead>
+              <tbody className="text-neutral-200">
+                {(data.trigger?.events ?? []).map((e) => (
+                  <tr key={e.lifecycle} className="border-t border-neutral-800">
+                    <td className="py-1 pr-4">{toLifecycleLabel(e.lifecycle)}</td>
+                    <td className="py-1 pr-4 font-mono text-xs text-neutral-400">{e.name}</td>
+                    <td className="py-1">{toEventActionLabel(e.action)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+            <CardHeading title="Field Mappings" anchor="crmActivity.fieldMappings" threads={threads} onComment={commentOn} />
+            {(data.crmActivity?.fieldMappings ?? []).length === 0 ? (
+              <div className="mt-2 text-sm text-neutral-400">No attributes mapped; only the subject and IDs are written.</div>
+            ) : (
+              <table className="mt-2 w-full text-left text-sm">
+                <thead className="text-xs text-neutral-500">
+                  <tr>
+                    <th className="py-1 pr-4 font-normal">Contact center attribute</th>
+                    <th className="py-1 pr-4 font-normal">CRM property</th>
+                    <th className="py-1 font-normal">Transform</th>
+                  </tr>
+                </thead>
+                <tbody className="text-neutral-200">
+                  {(data.crmActivity?.fieldMappings ?? []).map((m) => (
+                    <tr key={m.target} className="border-t border-neutral-800">
+                      <td className="py-1 pr-4">
+                        {sourceLabels.get(m.source) ?? m.source} <span className="font-mono text-xs text-neutral-400">{m.source}</span>
+                      </td>
+                      <td className="py-1 pr-4 font-mono text-xs">{m.target}</td>
+                      <td className="py-1">{describeTransform(m.transform)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+            <CardHeading title="Dispositions" anchor="dispositions" threads={threads} onComment={commentOn} />
+            {(data.dispositions ?? []).length === 0 ? (
+              <div className="mt-2 text-sm text-neutral-400">No disposition codes mapped; wrap-up codes are not written to the CRM.</div>
+            ) : (
+              <table className="mt-2 w-full text-left text-sm">
+                <thead className="text-xs text-neutral-500">
+                  <tr>
+                    <th className="py-1 pr-4 font-normal">Code</th>
+                    <th className="py-1 font-normal">CRM outcome</th>
+                  </tr>
+                </thead>
+                <tbody className="text-neutral-200">
+                  {(data.dispositions ?? []).map((d) => (
+                    <tr key={d.code} className="border-t border-neutral-800">
+                      <td className="py-1 pr-4">
+                        <span className="font-mono text-xs">{d.code}</span>
+                        {d.label && <span className="text-neutral-400"> {d.label}</span>}
+                      </td>
+                      <td className="py-1">{describeOutcome(d.outcome)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
           <div className="grid gap-4 md:grid-cols-3">
             <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
-              <div className="text-xs uppercase text-neutral-500">Customer Matching</div>
+              <CardHeading title="Customer Matching" anchor="matching" threads={threads} onComment={commentOn} />
               <div className="mt-2 space-y-2 text-sm">
                 <div>Customer matching: <span className="text-neutral-200">
                   {toCustomerMatchingLine(data.matching?.strategy)}
                 </span></div>
-                <div>Normalization rules: <span className="text-neutral-200">{formatValue(pickFirst(data.matching?.phoneNormalization, data.matching?.normalization))}</span></div>
+                <div>Normalization rules: <span className="text-neutral-200">{toPhoneNormalizationLine(data.matching?.phoneNormalization)}</span></div>
                 <div>External customer ID field: <span className="text-neutral-200">{formatValue(data.matching?.externalIdField)}</span></div>
               </div>
             </div>
 
             <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
-              <div className="text-xs uppercase text-neutral-500">CRM Activity Ownership</div>
+              <CardHeading title="CRM Activity Ownership" anchor="ownership" threads={threads} onComment={commentOn} />
               <div className="mt-2 space-y-2 text-sm">
                 <div>Ownership rule: <span className="text-neutral-200">{ownership.ownerStrategy ? toOwnerStrategyLabel(ownership.ownerStrategy) : "N/A"}</span></div>
                 <div>Interaction ID field: <span className="text-neutral-200">{formatValue(ownership.interactionIdField)}</span></div>
@@ -303,7 +620,7 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
             </div>
 
             <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
-              <div className="text-xs uppercase text-neutral-500">Reliability Targets</div>
+              <CardHeading title="Reliability Targets" anchor="reliability" threads={threads} onComment={commentOn} />
               <div className="mt-2 space-y-2 text-sm">
                 <div>Estimated daily interactions: <span className="text-neutral-200">{formatValue(data.reliability?.expectedVolume)}</span></div>
                 <div>Duplicate prevention: <span className="text-neutral-200">
@@ -316,20 +633,442 @@ export default function BlueprintPage({ params }: { params: Promise<{ id: string
 
           <div className="grid gap-4 md:grid-cols-3">
             <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4 md:col-span-2">
-              <div className="text-xs uppercase text-neutral-500">Security & Logging</div>
+              <CardHeading title="Security & Logging" anchor="security" threads={threads} onComment={commentOn} />
               <div className="mt-2 space-y-2 text-sm">
                 <div>Data sensitivity: <span className="text-neutral-200">{formatValue(data.security?.dataSensitivity)}</span></div>
                 <div>Logging posture: <span className="text-neutral-200">{formatValue(data.security?.logging)}</span></div>
+                {data.security?.recording && (
+                  <>
+                    <div>Recording links: <span className="text-neutral-200">
+                      {toAttachmentLine(data.security.recording.attachRecordingLink, data.security.recording.recordingRetention)}
+                    </span></div>
+                    <div>Call transcripts: <span className="text-neutral-200">
+                      {toAttachmentLine(data.security.recording.attachCallTranscript, data.security.recording.transcriptRetention)}
+                    </span></div>
+                    <div>All-party consent regions: <span className="text-neutral-200">
+                      {formatValue(data.security.recording.consentRegions.map((r) => CONSENT_REGION_LABELS[r]))}
+                    </span></div>
+                    <div>Consent capture: <span className="text-neutral-200">{CONSENT_METHOD_LABELS[data.security.recording.consentMethod]}</span></div>
+                    <div>Redaction: <span className="text-neutral-200">
+                      {data.security.recording.redaction.map((r) => REDACTION_LABELS[r]).join(", ") || "None"}
+                    </span></div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-neutral-800 bg-neutral-950/40 p-4">
+              <CardHeading title="CRM Field Catalog" anchor="crmFieldCatalog" threads={threads} onComment={commentOn} />
+              {data.crmFieldCatalog ? (
+                <div className="mt-2 space-y-2 text-sm">
+                  <div>Source: <span className="text-neutral-200">{data.crmFieldCatalog.source.fileName}</span></div>
+                  <div>Uploaded: <span className="text-neutral-200">{new Date(data.crmFieldCatalog.importedAt).toLocaleString()}</span></div>
+                  <div>Objects: <span className="text-neutral-200">
+                    {data.crmFieldCatalog.objects.map((o) => `${o.name} (${o.properties.length})`).join(", ")}
+                  </span></div>
+                  <div>Owners: <span className="text-neutral-200">{data.crmFieldCatalog.owners.length}</span></div>
+                </div>
+              ) : (
+                <div className="mt-2 text-sm text-neutral-400">None uploaded; CRM field names were not checked.</div>
+              )}
+            </div>
+          </div>
+        </section>
+
+        <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="text-xs uppercase text-neutral-500">Simulation Sandbox</div>
+              <p className="mt-1 text-sm text-neutral-400">
+                Replays synthetic contact-center events through this blueprint against sample CRM data. Nothing is sent to a real CRM.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={runSimulation}
+              disabled={simulating}
+              className="rounded-lg bg-neutral-100 px-4 py-2 text-sm font-medium text-neutral-900 hover:opacity-90 disabled:opacity-50"
+            >
+              {simulating ? "Running..." : "Run simulation"}
+            </button>
+          </div>
+
+          <details className="group">
+            <summary className="cursor-pointer text-sm text-neutral-300 group-open:mb-2">Custom events (optional)</summary>
+            <p className="mb-2 text-xs text-neutral-500">
+              A JSON array of events with deliveryId, lifecycle, interactionId, channel, direction, ani, dnis and timestamp. Leave empty to use the sample script.
+            </p>
+            <textarea
+              className="h-40 w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 font-mono text-xs text-neutral-100"
+              value={customEvents}
+              onChange={(e) => setCustomEvents(e.target.value)}
+              placeholder='[{ "deliveryId": "evt-1", "lifecycle": "interaction.accepted", ... }]'
+            />
+          </details>
+
+          {simulationError && <p className="text-sm text-red-400">{simulationError}</p>}
+
+          {simulation && (
+            <div className="space-y-3">
+              <div className="text-sm text-neutral-300">
+                {simulation.totals.created} created, {simulation.totals.updated} updated, {simulation.totals.skipped} skipped
               </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="text-xs uppercase text-neutral-500">
+                    <tr>
+                      <th className="py-2 pr-4">Event</th>
+                      <th className="py-2 pr-4">Result</th>
+                      <th className="py-2 pr-4">Matched contact</th>
+                      <th className="py-2 pr-4">Owner</th>
+                      <th className="py-2">Agent context</th>
+                    </tr>
+                  </thead>
+                  <tbody className="align-top">
+                    {simulation.steps.map((step) => (
+                      <tr key={step.event.deliveryId} className="border-t border-neutral-800">
+                        <td className="py-2 pr-4">
+                          <div className="text-neutral-200">{toLifecycleLabel(step.event.lifecycle)}</div>
+                          <div className="text-xs text-neutral-500">{step.event.interactionId} - {step.event.ani}</div>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className={SIMULATION_STATUS_CLASS[step.status]}>{step.summary}</div>
+                          {step.record && <div className="text-xs text-neutral-500">Subject: {step.record.subject}</div>}
+                          {step.idempotencyKey && <div className="text-xs text-neutral-500">Key: {step.idempotencyKey}</div>}
+                          {step.warnings.map((w) => (
+                            <div key={w} className="text-xs text-amber-300">{w}</div>
+                          ))}
+                        </td>
+                        <td className="py-2 pr-4 text-neutral-200">{toMatchLine(step.match)}</td>
+                        <td className="py-2 pr-4 text-neutral-200">{step.record?.owner ?? "-"}</td>
+                        <td className="py-2 text-xs text-neutral-300">
+                          {step.context.length === 0
+                            ? "-"
+                            : step.context.map((c) => (
+                                <div key={c.field}>
+                                  {c.field}: <span className="text-neutral-100">{c.value}</span>
+                                </div>
+                              ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6">
+          <div className="text-xs uppercase text-neutral-500">Revisions</div>
+          <table className="mt-2 w-full text-left text-sm">
+            <thead className="text-xs text-neutral-500">
+              <tr>
+                <th className="py-1 pr-4 font-normal">Revision</th>
+                <th className="py-1 pr-4 font-normal">Saved</th>
+                <th className="py-1 pr-4 font-normal">Author</th>
+                <th className="py-1 pr-4 font-normal">Note</th>
+                <th className="py-1 font-normal" />
+              </tr>
+            </thead>
+            <tbody>
+              {[...revisions].reverse().map((r) => (
+                <tr key={r.revision} className="border-t border-neutral-800">
+                  <td className="py-1 pr-4">{r.revision}</td>
+                  <td className="py-1 pr-4 text-neutral-400">{new Date(r.createdAt).toLocaleString()}</td>
+                  <td className="py-1 pr-4">{r.author ?? <span className="text-neutral-500">Not recorded</span>}</td>
+                  <td className="py-1 pr-4 text-neutral-300">{r.note ?? (r.revision === 1 ? "Initial submission" : "")}</td>
+                  <td className="py-1">
+                    {r.revision > 1 && (
+                      <Link
+                        href={`/blueprint/${encodeURIComponent(id)}/diff?from=${r.revision - 1}&to=${r.revision}`}
+                        className="text-neutral-200 hover:text-white underline underline-offset-4"
+                      >
+                        Changes
+                      </Link>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {review && (
+          <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6 space-y-4">
+            <div>
+              <div className="text-xs uppercase text-neutral-500">Review &amp; Approval</div>
+              <p className="mt-1 text-sm text-neutral-400">
+                RevOps, Contact Center Ops and IT sign off on the current revision before it is approved for implementation. Editing the blueprint restarts the review.
+              </p>
+            </div>
+
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-neutral-500">
+                <tr>
+                  <th className="py-1 pr-4 font-normal">Role</th>
+                  <th className="py-1 font-normal">Sign-off (revision {currentRevision})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(REVIEW_ROLE_LABELS) as ReviewRole[]).map((role) => {
+                  const signoff = review.signoffs.find((s) => s.role === role && s.revision === currentRevision);
+                  return (
+                    <tr key={role} className="border-t border-neutral-800">
+                      <td className="py-1 pr-4">
+                        {REVIEW_ROLE_LABELS[role]}
+                        {!review.requiredRoles.includes(role) && <span className="text-xs text-neutral-500"> (optional)</span>}
+                      </td>
+                      <td className="py-1">
+                        {signoff ? (
+                          <span className="text-emerald-300">
+                            Signed off by {signoff.reviewer}
+                            {signoff.comment && <span className="text-neutral-400"> - {signoff.comment}</span>}
+                          </span>
+                        ) : (
+                          <span className="text-neutral-500">Pending</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <label className="text-xs text-neutral-400">Your name</label>
+                <input
+                  className="mt-1 w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 text-sm text-neutral-100"
+                  value={reviewer}
+                  maxLength={100}
+                  onChange={(e) => setReviewer(e.target.value)}
+                />
+              </div>
+              {review.status === "in_review" && (
+                <div>
+                  <label className="text-xs text-neutral-400">Reviewing as</label>
+                  <select
+                    className="mt-1 w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 text-sm text-neutral-100"
+                    value={reviewRole}
+                    onChange={(e) => setReviewRole(e.target.value as ReviewRole)}
+                  >
+                    {(Object.keys(REVIEW_ROLE_LABELS) as ReviewRole[]).map((role) => (
+                      <option key={role} value={role}>
+                        {REVIEW_ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="md:col-span-2">
+                <label className="text-xs text-neutral-400">Comment{review.status === "in_review" ? " (required to request changes)" : " (optional)"}</label>
+                <textarea
+                  className="mt-1 w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 text-sm text-neutral-100"
+                  rows={2}
+                  maxLength={1000}
+                  value={reviewComment}
+                  onChange={(e) => setReviewComment(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {(review.status === "draft" || review.status === "changes_requested") && (
+                <button type="button" disabled={reviewBusy} onClick={() => void sendReviewAction("submit")} className={REVIEW_BUTTON_CLASS}>
+                  Submit for review
+                </button>
+              )}
+              {review.status === "in_review" && (
+                <>
+                  <button type="button" disabled={reviewBusy} onClick={() => void sendReviewAction("sign_off")} className={REVIEW_BUTTON_CLASS}>
+                    Sign off as {REVIEW_ROLE_LABELS[reviewRole]}
+                  </button>
+                  <button type="button" disabled={reviewBusy} onClick={() => void sendReviewAction("request_changes")} className={REVIEW_BUTTON_CLASS}>
+                    Request changes
+                  </button>
+                  <button
+                    type="button"
+                    disabled={reviewBusy || review.missingRoles.length > 0}
+                    onClick={() => void sendReviewAction("approve")}
+                    className="rounded-lg bg-neutral-100 px-4 py-2 text-sm font-medium text-neutral-900 hover:opacity-90 disabled:opacity-50"
+                  >
+                    Approve blueprint
+                  </button>
+                  {review.missingRoles.length > 0 && (
+                    <span className="text-xs text-neutral-500">
+                      Waiting for {review.missingRoles.map((r) => REVIEW_ROLE_LABELS[r]).join(", ")}
+                    </span>
+                  )}
+                </>
+              )}
+              {review.status === "approved" && (
+                <button type="button" disabled={reviewBusy} onClick={() => void sendReviewAction("reopen")} className={REVIEW_BUTTON_CLASS}>
+                  Reopen
+                </button>
+              )}
+            </div>
+            {reviewError && <p className="text-sm text-red-400">{reviewError}</p>}
+
+            <div>
+              <div className="text-xs uppercase text-neutral-500">Audit trail</div>
+              {review.audit.length === 0 ? (
+                <p className="mt-2 text-sm text-neutral-500">No review activity yet.</p>
+              ) : (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {[...review.audit].reverse().map((event, index) => (
+                    <li key={`${event.at}-${index}`} className="text-neutral-300">
+                      <span className="text-neutral-500">{new Date(event.at).toLocaleString()}</span>{" "}
+                      {AUDIT_ACTION_LABELS[event.action]}
+                      {event.role && ` as ${REVIEW_ROLE_LABELS[event.role]}`} by {event.actor ?? "unknown"} (revision {event.revision})
+                      {event.from !== event.to && (
+                        <span className="text-neutral-500">
+                          {" "}
+                          - {REVIEW_STATUS_BADGE[event.from].label} &rarr; {REVIEW_STATUS_BADGE[event.to].label}
+                        </span>
+                      )}
+                      {event.comment && <div className="pl-4 text-neutral-400">{event.comment}</div>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </section>
+        )}
+
+        <section id="comments" className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="text-xs uppercase text-neutral-500">Comments</div>
+              <p className="mt-1 text-sm text-neutral-400">Discuss a specific section or field. Resolve a thread once it is addressed.</p>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-neutral-400">
+              <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+              Show resolved
+            </label>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            <div>
+              <label className="text-xs text-neutral-400">Your name</label>
+              <input
+                className="mt-1 w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 text-sm text-neutral-100"
+                value={reviewer}
+                maxLength={100}
+                onChange={(e) => setReviewer(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-neutral-400">Section or field</label>
+              <select
+                className="mt-1 w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 font-mono text-xs text-neutral-100"
+                value={commentAnchor}
+                onChange={(e) => setCommentAnchor(e.target.value)}
+              >
+                {anchorOptions.map((anchor) => (
+                  <option key={anchor} value={anchor}>
+                    {anchor}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <textarea
+                className="w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 text-sm text-neutral-100"
+                rows={2}
+                maxLength={2000}
+                placeholder="Add a comment"
+                value={commentBody}
+                onChange={(e) => setCommentBody(e.target.value)}
+              />
+              <button
+                type="button"
+                disabled={commentBusy || !commentBody.trim()}
+                onClick={async () => {
+                  if (await sendCommentAction({ type: "start", anchor: commentAnchor, body: commentBody })) setCommentBody("");
+                }}
+                className={`mt-2 ${REVIEW_BUTTON_CLASS}`}
+              >
+                Comment
+              </button>
             </div>
           </div>
+          {commentError && <p className="text-sm text-red-400">{commentError}</p>}
+
+          {visibleThreads.length === 0 ? (
+            <p className="text-sm text-neutral-500">{threads.length === 0 ? "No comments yet." : "All comments are resolved."}</p>
+          ) : (
+            <ul className="space-y-3">
+              {visibleThreads.map((thread) => (
+                <li
+                  key={thread.id}
+                  className={`rounded-xl border border-neutral-800 bg-neutral-950/40 p-4 space-y-2 ${thread.resolved ? "opacity-60" : ""}`}
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-neutral-500">
+                    <span>
+                      {sectionTitleFor(thread.anchor)} <span className="font-mono text-neutral-300">{thread.anchor}</span> (revision {thread.revision})
+                    </span>
+                    <button
+                      type="button"
+                      disabled={commentBusy}
+                      onClick={() => void sendCommentAction({ type: thread.resolved ? "unresolve" : "resolve", threadId: thread.id })}
+                      className="hover:text-neutral-200 disabled:opacity-50"
+                    >
+                      {thread.resolved ? `Resolved by ${thread.resolvedBy} - reopen` : "Resolve"}
+                    </button>
+                  </div>
+                  {thread.comments.map((comment) => (
+                    <div key={comment.id} className="text-sm">
+                      <span className="text-neutral-200">{comment.author}</span>{" "}
+                      <span className="text-xs text-neutral-500">{new Date(comment.createdAt).toLocaleString()}</span>
+                      <div className="whitespace-pre-wrap text-neutral-300">{comment.body}</div>
+                    </div>
+                  ))}
+                  {!thread.resolved && (
+                    <div className="flex gap-2">
+                      <input
+                        className="w-full rounded-lg border border-neutral-800 bg-neutral-950 p-2 text-sm text-neutral-100"
+                        placeholder="Reply"
+                        maxLength={2000}
+                        value={replyDrafts[thread.id] ?? ""}
+                        onChange={(e) => setReplyDrafts((drafts) => ({ ...drafts, [thread.id]: e.target.value }))}
+                      />
+                      <button
+                        type="button"
+                        disabled={commentBusy || !replyDrafts[thread.id]?.trim()}
+                        onClick={async () => {
+                          if (await sendCommentAction({ type: "reply", threadId: thread.id, body: replyDrafts[thread.id] })) {
+                            setReplyDrafts((drafts) => ({ ...drafts, [thread.id]: "" }));
+                          }
+                        }}
+                        className={REVIEW_BUTTON_CLASS}
+                      >
+                        Reply
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </section>
 
         <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6">
-          <div className="text-xs uppercase text-neutral-500">Share / Handoff</div>
-          <p className="mt-2 text-sm text-neutral-200">
-            Use this page to align RevOps, Contact Center Ops, and IT on intended behavior before implementation.
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="text-xs uppercase text-neutral-500">Implementation Scaffold</div>
+              <p className="mt-1 text-sm text-neutral-400">
+                A TypeScript starter project built from this blueprint: webhook handler, customer matching, CRM activity creation, duplicate prevention and logging. Platform payload mapping is left as TODOs.
+              </p>
+            </div>
+            <a
+              href={`/api/blueprints/${encodeURIComponent(id)}/scaffold`}
+              download
+              className="rounded-lg border border-neutral-700 px-4 py-2 text-sm text-neutral-100 hover:border-neutral-500"
+            >
+              Download .zip
+            </a>
+          </div>
         </section>
 
         <section className="rounded-2xl border border-neutral-800 bg-neutral-900/40 p-6">
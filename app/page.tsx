@@ -1,124 +1,75 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { use, useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useForm } from "react-hook-form";
-import { z } from "zod";
+import { useForm, type DefaultValues } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { IntakeRevisionSchema, IntakeSchema, type IntakeForm } from "@/lib/intake/schema";
+import { buildNormalizedIntake } from "@/lib/intake/normalize";
+import { blueprintToIntakeForm } from "@/lib/intake/denormalize";
+import { importBlueprint } from "@/lib/intake/import";
+import { getContactCenterCapabilities, getCrmCapabilities, PLACEMENT_LABELS } from "@/lib/intake/capabilities";
+import { contextFieldOptions, countProperties, parseFieldCatalog, propertyOptions } from "@/lib/intake/field-catalog";
+import { getSourceAttributes, type FieldMapping, type FieldTransform } from "@/lib/intake/field-mapping";
+import {
+  dispositionAttribute,
+  mergeDispositionCodes,
+  parseDispositionCodes,
+  type DispositionForm,
+  type DispositionOutcome,
+} from "@/lib/intake/dispositions";
+import { getTemplate, INTAKE_TEMPLATES, TEMPLATE_FIELD_LABELS, type TemplateField } from "@/lib/intake/templates";
+import type { DiffEntry } from "@/lib/blueprints/diff";
+import type { ValidationIssue } from "@/lib/validation";
+import {
+  deleteDraft,
+  getDraftsSnapshot,
+  getServerDraftsSnapshot,
+  saveDraft,
+  subscribeDrafts,
+  type IntakeDraft,
+} from "@/lib/intake/drafts";
+import type { Blueprint } from "@/lib/blueprints/schema";
+import { normalizePhone, PHONE_COUNTRIES, PHONE_COUNTRY_CODES } from "@/lib/phone";
+import {
+  CONSENT_METHOD_LABELS,
+  CONSENT_REGION_ENUM,
+  CONSENT_REGION_LABELS,
+  REDACTION_ENUM,
+  REDACTION_LABELS,
+  RETENTION_LABELS,
+} from "@/lib/intake/recording";
+import { getSampleValues, getTemplateVariables, lintTemplate, renderTemplate } from "@/lib/intake/subject-template";
+
+type Channel = IntakeForm["channels"][number];
+
+const CHANNEL_OPTIONS: Array<{ id: Channel; label: string }> = [
+  { id: "voice", label: "Voice" },
+  { id: "chat", label: "Web chat" },
+  { id: "sms", label: "SMS" },
+  { id: "email", label: "Email" },
+  { id: "messaging", label: "Messaging apps (WhatsApp, Messenger, ...)" },
+];
 
-const CRM_ENUM = z.enum(["hubspot", "salesforce", "other"]);
-const CONTACT_CENTER_ENUM = z.enum(["ringcentral", "five9", "genesys", "nice", "other"]);
-const AGENT_WORKSPACE_ENUM = z.enum(["native_ccp_desktop", "embedded_crm_panel", "custom_workspace", "hybrid_workspace", "unknown"]);
-const CRM_ACTIVITY_ENUM = z.enum(["engagement", "task", "note"]);
-const OWNER_STRATEGY_ENUM = z.enum(["map_agent_email", "fixed_owner", "unassigned"]);
-const PHONE_NORM_ENUM = z.enum(["us_e164", "as_is", "other"]);
-const CONTEXT_PLACEMENT_ENUM = z.enum(["interaction_tab", "sidebar", "unknown"]);
-const VOLUME_ENUM = z.enum(["lt_100", "100_1000", "1000_10000", "gt_10000"]);
-const LATENCY_ENUM = z.enum(["best_effort", "under_2s", "under_500ms"]);
-const SENSITIVITY_ENUM = z.enum(["low", "pii", "regulated"]);
-const LOGGING_ENUM = z.enum(["mask_pii", "no_payload_logging"]);
-
-const IntakeSchema = z
-  .object({
-    // Step 0: mode (locked to feedback_only)
-    mode: z.literal("feedback_only"),
-
-    // Step 1: systems
-    crm: CRM_ENUM,
-    otherCrmName: z.string().trim().optional(),
-    contactCenter: CONTACT_CENTER_ENUM,
-    otherContactCenterName: z.string().trim().optional(),
-    agentWorkspace: AGENT_WORKSPACE_ENUM,
-    //environment: z.enum(["sandbox", "demo"]).default("sandbox"),
-    environment: z.enum(["sandbox", "demo"]),
-
-    // Step 2: trigger
-    direction: z.enum(["inbound", "outbound", "both"]),
-    voiceOnly: z.boolean(),
-
-    // Step 3: CRM activity
-    crmActivityObjectType: CRM_ACTIVITY_ENUM,
-    subjectTemplate: z
-      .string()
-      .min(5, "Subject template is required"),
-    associations: z
-      .array(z.enum(["contact", "company", "deal"]))
-      .min(1, "Select at least one association"),
-
-    // Step 4: matching
-    matchingStrategy: z.array(z.enum(["ani_phone_match", "external_id"])).min(1),
-    phoneNormalization: PHONE_NORM_ENUM,
-    externalIdField: z.string().trim().optional(),
-
-    // Step 5: context injection
-    contextFields: z.array(z.string()).min(1, "Select at least one context field"),
-    customContextFields: z.string().trim().optional(), // comma-separated
-    contextPlacement: CONTEXT_PLACEMENT_ENUM,
-
-    // Step 6: ownership & audit
-    ownerStrategy: OWNER_STRATEGY_ENUM,
-    fixedOwner: z.string().trim().optional(),
-    storeCallId: z.boolean(),
-    callIdField: z.string().trim(),
-
-    // Step 7: reliability
-    expectedVolume: VOLUME_ENUM,
-    idempotencyKey: z.string().trim(),
-    latencyTarget: LATENCY_ENUM,
-
-    // Step 8: security
-    dataSensitivity: SENSITIVITY_ENUM,
-    logging: LOGGING_ENUM,
-  })
-  .superRefine((val, ctx) => {
-    // CRM "other" requires a name
-    if (val.crm === "other" && !val.otherCrmName) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["otherCrmName"],
-        message: "Please specify the CRM name",
-      });
-    }
-
-    // Contact center "other" requires a name
-    if (val.contactCenter === "other" && !val.otherContactCenterName) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["otherContactCenterName"],
-        message: "Please specify the contact center name",
-      });
-    }
-
-    // If external_id strategy is selected, externalIdField is required
-    if (val.matchingStrategy.includes("external_id") && !val.externalIdField) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["externalIdField"],
-        message: "External ID field is required when using external ID matching",
-      });
-    }
-
-    // Owner fixed requires fixedOwner
-    if (val.ownerStrategy === "fixed_owner" && !val.fixedOwner) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["fixedOwner"],
-        message: "Fixed owner is required when using fixed owner strategy",
-      });
-    }
-
-    // Regulated &rarr; enforce strict logging default
-    if (val.dataSensitivity === "regulated" && val.logging !== "no_payload_logging") {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["logging"],
-        message: "For regulated data, use 'No payload logging' (recommended).",
-      });
-    }
-  });
-
-type IntakeForm = z.infer<typeof IntakeSchema>;
+// Channels whose activity can carry a conversation transcript, and the form field holding that choice.
+const TRANSCRIPT_SETTING: Partial<Record<Channel, "chatAttachTranscript" | "smsAttachTranscript" | "messagingAttachTranscript">> = {
+  chat: "chatAttachTranscript",
+  sms: "smsAttachTranscript",
+  messaging: "messagingAttachTranscript",
+};
+
+type TriggerEventInput = IntakeForm["triggerEvents"][number];
+
+const LIFECYCLE_EVENT_OPTIONS: Array<{ id: TriggerEventInput["event"]; label: string; defaultAction: TriggerEventInput["action"] }> = [
+  { id: "interaction.accepted", label: "Interaction accepted", defaultAction: "create_activity" },
+  { id: "interaction.ended", label: "Interaction ended", defaultAction: "update_activity" },
+  { id: "interaction.wrap_up", label: "Wrap-up completed", defaultAction: "update_activity" },
+  { id: "interaction.missed", label: "Missed call", defaultAction: "create_task" },
+  { id: "interaction.abandoned", label: "Abandoned call", defaultAction: "create_task" },
+  { id: "voicemail.left", label: "Voicemail left", defaultAction: "create_task" },
+  { id: "interaction.transferred", label: "Interaction transferred", defaultAction: "update_activity" },
+];
 
 const CONTEXT_FIELD_OPTIONS: Array<{ id: string; label: string }> = [
   { id: "contact.fullName", label: "Contact full name" },
@@ -130,144 +81,389 @@ const CONTEXT_FIELD_OPTIONS: Array<{ id: string; label: string }> = [
   { id: "stats.openTickets", label: "Open tickets/cases count" },
 ];
 
+const STEPS = [
+  { title: "Systems", fields: ["crm", "otherCrmName", "contactCenter", "otherContactCenterName", "agentWorkspace", "environment", "crmFieldCatalog"] as const },
+  { title: "Trigger", fields: ["direction", "channels", "chatAttachTranscript", "smsAttachTranscript", "messagingAttachTranscript", "emailThreadIdField", "triggerEvents"] as const },
+  { title: "CRM Activity", fields: ["crmActivityObjectType", "subjectTemplate", "associations"] as const },
+  { title: "Field Mapping", fields: ["fieldMappings"] as const },
+  { title: "Dispositions", fields: ["dispositions"] as const },
+  { title: "Matching", fields: ["matchingStrategy", "phoneNormalization", "phoneDefaultCountry", "phoneStripExtension", "phoneOtherRule", "externalIdField"] as const },
+  { title: "Context Injection", fields: ["contextFields", "customContextFields", "contextPlacement"] as const },
+  { title: "Ownership & Audit", fields: ["ownerStrategy", "fixedOwner", "storeCallId", "callIdField"] as const },
+  { title: "Reliability", fields: ["expectedVolume", "idempotencyKey", "latencyTarget"] as const },
+  { title: "Security", fields: ["dataSensitivity", "logging"] as const },
+  {
+    title: "Recordings & Consent",
+    fields: ["attachRecordingLink", "recordingRetention", "attachCallTranscript", "transcriptRetention", "consentRegions", "consentMethod", "redaction"] as const,
+  },
+  { title: "Review & Submit", fields: [] as const },
+];
+
+const DEFAULT_VALUES: DefaultValues<IntakeForm> = {
+  mode: "feedback_only",
+  crm: "hubspot",
+  contactCenter: "ringcentral",
+  agentWorkspace: "embedded_crm_panel",
+  environment: "sandbox",
+  crmFieldCatalog: null,
+  direction: "inbound",
+  channels: ["voice"],
+  chatAttachTranscript: true,
+  smsAttachTranscript: false,
+  messagingAttachTranscript: true,
+  emailThreadIdField: "",
+  triggerEvents: [{ event: "interaction.accepted", action: "create_activity" }],
+  crmActivityObjectType: "engagement",
+  subjectTemplate: "Interaction from {{ani}} to {{dnis}}",
+  associations: ["contact"],
+  fieldMappings: [],
+  dispositions: [],
+  matchingStrategy: ["ani_phone_match"],
+  phoneNormalization: "e164",
+  phoneDefaultCountry: "US",
+  phoneStripExtension: true,
+  phoneOtherRule: "",
+  contextFields: ["contact.fullName", "company.name", "contact.email", "stats.openDeals"],
+  contextPlacement: "sidebar",
+  ownerStrategy: "map_agent_email",
+  storeCallId: true,
+  callIdField: "interaction_id",
+  expectedVolume: "100_1000",
+  idempotencyKey: "interactionId",
+  latencyTarget: "under_2s",
+  dataSensitivity: "pii",
+  logging: "mask_pii",
+  attachRecordingLink: false,
+  recordingRetention: "90_days",
+  attachCallTranscript: false,
+  transcriptRetention: "90_days",
+  consentRegions: [],
+  consentMethod: "none",
+  redaction: [],
+};
+
+const TRANSFORM_DEFAULTS: Record<FieldTransform["type"], FieldTransform> = {
+  none: { type: "none" },
+  lookup: { type: "lookup", table: [], fallback: null },
+  duration: { type: "duration", format: "seconds" },
+  truncate: { type: "truncate", maxLength: 255 },
+};
+
+const OUTCOME_DEFAULTS: Record<DispositionOutcome["type"], DispositionOutcome> = {
+  activity_status: { type: "activity_status", status: "" },
+  follow_up_task: { type: "follow_up_task", subject: "Follow up", dueInDays: 1 },
+  deal_stage: { type: "deal_stage", stage: "" },
+  none: { type: "none" },
+};
+
+// Lookup tables are edited as "from = to" lines.
+function formatLookupTable(table: Array<{ from: string; to: string }>): string {
+  return table.map((e) => `${e.from} = ${e.to}`).join("\n");
+}
+
+function parseLookupTable(text: string): Array<{ from: string; to: string }> {
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const sep = line.indexOf("=");
+      return sep === -1 ? { from: line.trim(), to: "" } : { from: line.slice(0, sep).trim(), to: line.slice(sep + 1).trim() };
+    });
+}
+
+// Error messages anywhere under a react-hook-form error node (array items nest per field).
+function collectErrorMessages(error: unknown): string[] {
+  if (!error || typeof error !== "object") return [];
+  return Object.entries(error).flatMap(([key, value]) =>
+    key === "message" && typeof value === "string" ? [value] : key === "ref" ? [] : collectErrorMessages(value)
+  );
+}
+
 function classNames(...xs: Array<string | false | null | undefined>) {
   return xs.filter(Boolean).join(" ");
 }
 
-function buildNormalizedIntake(input: IntakeForm) {
-  const customFields = (input.customContextFields || "")
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
-
-  const contactCenterName = input.contactCenter === "other" ? input.otherContactCenterName : input.contactCenter;
-  const interactionType = input.voiceOnly ? "voice" : "generic";
-  const eventType = `${contactCenterName}.interaction.accepted`;
-
-  const normalized = {
-    version: "v1",
-    mode: input.mode,
-    systems: {
-      crm: input.crm,
-      otherCrmName: input.crm === "other" ? input.otherCrmName ?? null : null,
-      contactCenter: input.contactCenter,
-      otherContactCenterName: input.contactCenter === "other" ? input.otherContactCenterName ?? null : null,
-      agentWorkspace: input.agentWorkspace,
-      environment: input.environment,
-    },
-    trigger: {
-      event: eventType,
-      interactionType,
-      direction: input.direction,
-    },
-    crmActivity: {
-      objectType: input.crmActivityObjectType,
-      subjectTemplate: input.subjectTemplate,
-      associations: input.associations,
-    },
-    matching: {
-      strategy: input.matchingStrategy,
-      phoneNormalization: input.phoneNormalization,
-      externalIdField: input.matchingStrategy.includes("external_id")
-        ? input.externalIdField ?? null
-        : null,
-    },
-    contextInjection: {
-      fields: input.contextFields,
-      customFields,
-      placement: input.contextPlacement,
-    },
-    ownership: {
-      ownerStrategy: input.ownerStrategy,
-      fixedOwner: input.ownerStrategy === "fixed_owner" ? input.fixedOwner ?? null : null,
-      storeInteractionId: input.storeCallId,
-      interactionIdField: input.storeCallId ? input.callIdField : null,
-    },
-    reliability: {
-      expectedVolume: input.expectedVolume,
-      idempotencyKey: input.idempotencyKey,
-      latencyTarget: input.latencyTarget,
-    },
-    security: {
-      dataSensitivity: input.dataSensitivity,
-      logging: input.logging,
-    },
-    warnings: [] as string[],
-  };
-
-  // Non-blocking warnings
-  if (normalized.systems.environment !== "sandbox" && normalized.systems.environment !== "demo") {
-    normalized.warnings.push("Evaluation-only: environment must be sandbox/demo.");
-  }
-  if (normalized.systems.agentWorkspace === "unknown") {
-    normalized.warnings.push("Agent workspace not determined — context injection placement may vary by platform.");
-  }
-  if (normalized.security.dataSensitivity === "regulated") {
-    normalized.warnings.push("Regulated data indicated — security review required before production use.");
-  }
+function describeUnmapped(entry: DiffEntry): string {
+  const show = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+  if (entry.kind === "removed") return `${show(entry.from)} is not supported by the form and was dropped`;
+  if (entry.kind === "added") return `not in the file; the form uses ${show(entry.to)}`;
+  return `${show(entry.from)} becomes ${show(entry.to)}`;
+}
 
-  return normalized;
+function deleteServerDraft(id: string) {
+  void fetch(`/api/drafts/${encodeURIComponent(id)}`, { method: "DELETE" }).catch(() => undefined);
 }
 
-export default function Page() {
+export default function Page({ searchParams }: { searchParams: Promise<{ edit?: string; draft?: string }> }) {
+  const query = use(searchParams);
+  // ?edit=<id> reopens a stored blueprint; saving adds a revision instead of creating a new blueprint.
+  const editId = query.edit ?? null;
+  // Edits accept platform combinations the capability catalog rejects; the server keeps them as warnings.
+  const intakeSchema = editId ? IntakeRevisionSchema : IntakeSchema;
+  // ?draft=<id> opens a draft saved behind a resume link.
+  const resumeId = query.draft ?? null;
   const router = useRouter();
   const [step, setStep] = useState(0);
   const [submitState, setSubmitState] = useState<"idle" | "submitting" | "done" | "error">("idle");
+  // One idempotency key per distinct payload: double-clicks and retries of the same submission reuse it.
+  const submission = useRef<{ body: string; key: string } | null>(null);
   const [serverMsg, setServerMsg] = useState<string>("");
+  const [editing, setEditing] = useState<{ revision: number } | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [author, setAuthor] = useState("");
+  const [changeNote, setChangeNote] = useState("");
+  const drafts = useSyncExternalStore(subscribeDrafts, getDraftsSnapshot, getServerDraftsSnapshot);
+  const [activeDraftId, setActiveDraftId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [serverDraftId, setServerDraftId] = useState<string | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [draftPromptDismissed, setDraftPromptDismissed] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [dispositionText, setDispositionText] = useState("");
+  const [dispositionError, setDispositionError] = useState<string | null>(null);
+  const [importError, setImportError] = useState<{ message: string; issues: ValidationIssue[] } | null>(null);
+  const [importReport, setImportReport] = useState<{ fromVersion: string; unmapped: DiffEntry[]; issues: ValidationIssue[] } | null>(
+    null
+  );
+  const [templateId, setTemplateId] = useState("");
+  const [appliedTemplate, setAppliedTemplate] = useState<{ label: string; fields: TemplateField[] } | null>(null);
+  const [phoneSamples, setPhoneSamples] = useState("(415) 555-0100\n+44 20 7946 0958\n1-800-555-0199 x204");
 
   const form = useForm<IntakeForm>({
-    resolver: zodResolver(IntakeSchema),
-    defaultValues: {
-      mode: "feedback_only",
-      crm: "hubspot",
-      contactCenter: "ringcentral",
-      agentWorkspace: "native_ccp_desktop",
-      environment: "sandbox",
-      direction: "inbound",
-      voiceOnly: true,
-      crmActivityObjectType: "engagement",
-      subjectTemplate: "Interaction from {{ani}} to {{dnis}}",
-      associations: ["contact"],
-      matchingStrategy: ["ani_phone_match"],
-      phoneNormalization: "us_e164",
-      contextFields: ["contact.fullName", "company.name", "contact.email", "stats.openDeals"],
-      contextPlacement: "interaction_tab",
-      ownerStrategy: "map_agent_email",
-      storeCallId: true,
-      callIdField: "interaction_id",
-      expectedVolume: "100_1000",
-      idempotencyKey: "interactionId",
-      latencyTarget: "under_2s",
-      dataSensitivity: "pii",
-      logging: "mask_pii",
-    },
+    resolver: zodResolver(intakeSchema),
+    defaultValues: DEFAULT_VALUES,
     mode: "onBlur",
   });
 
+  useEffect(() => {
+    if (!editId) return;
+    let cancelled = false;
+    fetch(`/api/blueprints/${encodeURIComponent(editId)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Failed to load blueprint");
+        if (cancelled) return;
+        form.reset(blueprintToIntakeForm(data.blueprint as Blueprint));
+        setEditing({ revision: data.revision });
+        setAuthor((current) => current || (localStorage.getItem("micro_si_author") ?? ""));
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setEditError(e instanceof Error ? e.message : "Failed to load blueprint");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [editId, form]);
+
+  const applyDraft = useCallback(
+    (draft: IntakeDraft) => {
+      form.reset({ ...DEFAULT_VALUES, ...draft.values } as DefaultValues<IntakeForm>);
+      setStep(Math.min(Math.max(draft.step, 0), STEPS.length - 1));
+      setActiveDraftId(draft.id);
+      setDraftName(draft.name);
+      setServerDraftId(draft.serverId);
+      setDraftPromptDismissed(true);
+    },
+    [form]
+  );
+
+  useEffect(() => {
+    if (!resumeId || editId) return;
+    let cancelled = false;
+    fetch(`/api/drafts/${encodeURIComponent(resumeId)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Failed to load draft");
+        if (cancelled) return;
+        // Reuse the local copy if this browser already has one, so the draft is not listed twice.
+        const local = getDraftsSnapshot().find((d) => d.serverId === resumeId);
+        const draft: IntakeDraft = {
+          id: local?.id ?? crypto.randomUUID(),
+          name: data.draft.name,
+          step: data.draft.step,
+          values: data.draft.values,
+          updatedAt: data.draft.updatedAt,
+          serverId: resumeId,
+        };
+        saveDraft(draft);
+        applyDraft(draft);
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setDraftError(e instanceof Error ? e.message : "Failed to load draft");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeId, editId, applyDraft]);
+
   const values = form.watch();
+  const valuesJson = JSON.stringify(values);
+  const { isDirty } = form.formState;
+
+  // Autosave: a draft is created on the first change and updated (debounced) after every change.
+  // Edits of stored blueprints are not drafted; they are saved as revisions instead.
+  useEffect(() => {
+    if (editId || submitState === "submitting" || submitState === "done") return;
+    if (!activeDraftId && !isDirty && step === 0) return;
+
+    const timer = setTimeout(() => {
+      const draft: IntakeDraft = {
+        id: activeDraftId ?? crypto.randomUUID(),
+        name: draftName.trim() || `Intake ${new Date().toLocaleString()}`,
+        step,
+        values: JSON.parse(valuesJson),
+        updatedAt: new Date().toISOString(),
+        serverId: serverDraftId,
+      };
+      try {
+        saveDraft(draft);
+      } catch (e) {
+        // localStorage is full or disabled; keep the form as it is and say so.
+        setDraftError(
+          e instanceof DOMException && e.name === "QuotaExceededError"
+            ? "Browser storage is full; delete old drafts to keep saving"
+            : "Failed to save draft"
+        );
+        return;
+      }
+      if (!serverDraftId) setDraftError(null);
+      if (!activeDraftId) {
+        setActiveDraftId(draft.id);
+        setDraftName(draft.name);
+      }
+      if (serverDraftId) {
+        fetch(`/api/drafts/${encodeURIComponent(serverDraftId)}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: draft.name, step: draft.step, values: draft.values }),
+        })
+          .then(async (res) => {
+            if (!res.ok) throw new Error((await res.json())?.error || "Failed to sync draft");
+            setDraftError(null);
+          })
+          .catch((e: unknown) => setDraftError(e instanceof Error ? e.message : "Failed to sync draft"));
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [editId, submitState, activeDraftId, isDirty, step, draftName, valuesJson, serverDraftId]);
+
+  function applyTemplate() {
+    const template = getTemplate(templateId);
+    if (!template) return;
+    // Dirty state stays relative to the original defaults so autosave still sees the change.
+    form.reset({ ...form.getValues(), ...template.values }, { keepDefaultValues: true });
+    setAppliedTemplate({ label: template.label, fields: Object.keys(template.values) as TemplateField[] });
+  }
+
+  function runImport() {
+    const result = importBlueprint(importText);
+    if (!result.ok) {
+      setImportError({ message: result.error, issues: result.issues });
+      return;
+    }
+    form.reset(result.values);
+    // An import starts a new draft rather than overwriting the one being edited.
+    setActiveDraftId(null);
+    setDraftName("");
+    setServerDraftId(null);
+    setDraftError(null);
+    setImportError(null);
+    setImportReport({ fromVersion: result.fromVersion, unmapped: result.unmapped, issues: result.issues });
+    setImportOpen(false);
+    setImportText("");
+    setDraftPromptDismissed(true);
+    setStep(STEPS.length - 1);
+  }
+
+  function startNewDraft() {
+    form.reset(DEFAULT_VALUES);
+    setStep(0);
+    setActiveDraftId(null);
+    setDraftName("");
+    setServerDraftId(null);
+    setDraftError(null);
+    setDraftPromptDismissed(true);
+  }
+
+  function discardDraft(draft: IntakeDraft) {
+    deleteDraft(draft.id);
+    if (draft.serverId) deleteServerDraft(draft.serverId);
+    if (draft.id === activeDraftId) startNewDraft();
+  }
+
+  async function createResumeLink() {
+    setDraftError(null);
+    try {
+      const name = draftName.trim() || `Intake ${new Date().toLocaleString()}`;
+      const res = await fetch("/api/drafts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, step, values: form.getValues() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to create resume link");
+      setDraftName(name);
+      // Stored with the local draft by the next autosave, which also keeps the server copy current.
+      setServerDraftId(data.id);
+      if (!activeDraftId) setActiveDraftId(crypto.randomUUID());
+    } catch (e) {
+      setDraftError(e instanceof Error ? e.message : "Failed to create resume link");
+    }
+  }
+
+  const activeDraft = drafts.find((d) => d.id === activeDraftId) ?? null;
+  const otherDrafts = drafts.filter((d) => d.id !== activeDraftId);
+  const showDraftPrompt = !editId && !resumeId && !draftPromptDismissed && !activeDraftId && drafts.length > 0;
   const normalized = useMemo(() => {
     // If current values are invalid, normalized may throw. Guard by parsing safely.
-    const parsed = IntakeSchema.safeParse(values);
+    const parsed = intakeSchema.safeParse(values);
     return parsed.success ? buildNormalizedIntake(parsed.data) : null;
-  }, [values]);
-
-  const steps = [
-    { title: "Systems", fields: ["crm", "otherCrmName", "contactCenter", "otherContactCenterName", "agentWorkspace", "environment"] as const },
-    { title: "Trigger", fields: ["direction", "voiceOnly"] as const },
-    { title: "CRM Activity", fields: ["crmActivityObjectType", "subjectTemplate", "associations"] as const },
-    { title: "Matching", fields: ["matchingStrategy", "phoneNormalization", "externalIdField"] as const },
-    { title: "Context Injection", fields: ["contextFields", "customContextFields", "contextPlacement"] as const },
-    { title: "Ownership & Audit", fields: ["ownerStrategy", "fixedOwner", "storeCallId", "callIdField"] as const },
-    { title: "Reliability", fields: ["expectedVolume", "idempotencyKey", "latencyTarget"] as const },
-    { title: "Security", fields: ["dataSensitivity", "logging"] as const },
-    { title: "Review & Submit", fields: [] as const },
-  ];
+  }, [values, intakeSchema]);
+
+  const fieldCatalog = values.crmFieldCatalog ?? null;
+  const customContextOptions = contextFieldOptions(fieldCatalog);
+  const crmCapabilities = getCrmCapabilities(values.crm);
+  const contactCenterCapabilities = getContactCenterCapabilities(values.contactCenter);
+  const templateVariables = getTemplateVariables(values.contactCenter);
+  const fieldMappings = values.fieldMappings ?? [];
+
+  function updateMapping(index: number, patch: Partial<FieldMapping>) {
+    form.setValue(
+      "fieldMappings",
+      fieldMappings.map((m, i) => (i === index ? { ...m, ...patch } : m)),
+      // Revalidate only once errors are showing, so a half-filled row is not flagged while typing.
+      { shouldDirty: true, shouldValidate: !!form.formState.errors.fieldMappings }
+    );
+  }
+
+  const dispositions = values.dispositions ?? [];
+
+  function updateDisposition(index: number, patch: Partial<DispositionForm>) {
+    form.setValue(
+      "dispositions",
+      dispositions.map((d, i) => (i === index ? { ...d, ...patch } : d)),
+      { shouldDirty: true, shouldValidate: !!form.formState.errors.dispositions }
+    );
+  }
+
+  function importDispositionCodes(text: string) {
+    const result = parseDispositionCodes(text);
+    setDispositionError(result.ok ? null : result.error);
+    if (!result.ok) return;
+    form.setValue("dispositions", mergeDispositionCodes(dispositions, result.codes), { shouldDirty: true });
+    setDispositionText("");
+  }
+  const subjectLint = lintTemplate(values.subjectTemplate ?? "", values.contactCenter);
+  const subjectPreview = renderTemplate(values.subjectTemplate ?? "", getSampleValues(values.contactCenter));
+
 
   async function next() {
-    const current = steps[step];
+    const current = STEPS[step];
     const ok = await form.trigger(current.fields as any, { shouldFocus: true });
     if (!ok) return;
-    setStep((s) => Math.min(s + 1, steps.length - 1));
+    setStep((s) => Math.min(s + 1, STEPS.length - 1));
   }
 
   function back() {
@@ -275,7 +471,7 @@ export default function Page() {
   }
 
   async function onSubmit() {
-    const parsed = IntakeSchema.safeParse(form.getValues());
+    const parsed = intakeSchema.safeParse(form.getValues());
     if (!parsed.success) {
       setStep(0);
       return;
@@ -285,24 +481,52 @@ export default function Page() {
     // Save locally for convenience (optional)
     localStorage.setItem("micro_si_intake_v1", JSON.stringify(payload, null, 2));
 
+    const body = JSON.stringify(payload);
+    if (submission.current?.body !== body) {
+      submission.current = { body, key: crypto.randomUUID() };
+    }
+
+    if (editId && !author.trim()) {
+      setSubmitState("error");
+      setServerMsg("Enter your name so the revision can be attributed.");
+      return;
+    }
+
     setSubmitState("submitting");
     setServerMsg("");
 
     try {
-      const res = await fetch("/api/intake", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
+      const res = editId
+        ? await fetch(`/api/blueprints/${encodeURIComponent(editId)}`, {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              blueprint: payload,
+              author: author.trim(),
+              note: changeNote.trim() || undefined,
+              baseRevision: editing?.revision,
+            }),
+          })
+        : await fetch("/api/intake", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "Idempotency-Key": submission.current.key },
+            body,
+          });
       const data = await res.json();
-      if (!res.ok) throw new Error(data?.error || "Request failed");
-      const id = crypto.randomUUID();
-      localStorage.setItem(`micro_si_blueprint_${id}`, JSON.stringify(payload, null, 2));
+      if (!res.ok) {
+        const issues: Array<{ field: string; message: string }> = data?.issues ?? [];
+        const detail = issues.map((i) => `${i.field}: ${i.message}`).join("; ");
+        throw new Error([data?.error || "Request failed", detail].filter(Boolean).join(" - "));
+      }
+      const id: string = data.id;
       localStorage.setItem("micro_si_last_blueprint_id", id);
+      if (editId) localStorage.setItem("micro_si_author", author.trim());
+      if (activeDraftId) deleteDraft(activeDraftId);
+      if (serverDraftId) deleteServerDraft(serverDraftId);
 
       setSubmitState("done");
-      setServerMsg(data?.message || "Submitted.");
-      setStep(steps.length - 1);
+      setServerMsg(data?.message || (editId ? `Saved revision ${data.revision}.` : "Submitted."));
+      setStep(STEPS.length - 1);
       router.push(`/blueprint/${id}`);
     } catch (e: any) {
       setSubmitState("error");
@@ -338,8 +562,172 @@ export default function Page() {
             </div>
           </div>
         </header>
+        {editId && (
+          <div
+            className={classNames(
+              "rounded-lg border p-3 text-sm",
+              editError ? "border-red-200 bg-red-50 text-red-900" : "border-neutral-800 bg-neutral-900 text-neutral-200"
+            )}
+          >
+            {editError ? (
+              <>Could not open blueprint {editId}: {editError}</>
+            ) : editing ? (
+              <>
+                Editing blueprint <Link href={`/blueprint/${editId}`} className="underline">{editId}</Link> (revision{" "}
+                {editing.revision}). Saving creates revision {editing.revision + 1}.
+              </>
+            ) : (
+              <>Loading blueprint {editId}...</>
+            )}
+          </div>
+        )}
+        {!editId && (
+          <div className="rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-sm text-neutral-200 space-y-2">
+            <button type="button" onClick={() => setImportOpen((open) => !open)} className="text-sm font-medium">
+              {importOpen ? "Hide import" : "Import an existing blueprint JSON"}
+            </button>
+            {importOpen && (
+              <div className="space-y-2">
+                <p className="text-xs text-neutral-400">
+                  Paste or upload a blueprint of any version. It replaces the current answers and opens the review step.
+                </p>
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="text-xs"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    if (file) setImportText(await file.text());
+                  }}
+                />
+                <textarea
+                  className="w-full border rounded-lg p-2 font-mono text-xs bg-neutral-950 text-neutral-100 border-neutral-800"
+                  rows={6}
+                  placeholder='{ "version": "v9", "systems": { ... } }'
+                  value={importText}
+                  onChange={(e) => setImportText(e.target.value)}
+                />
+                <button
+                  type="button"
+                  onClick={runImport}
+                  disabled={!importText.trim()}
+                  className="px-3 py-1 rounded-lg bg-neutral-100 text-neutral-900 text-xs disabled:opacity-50"
+                >
+                  Import
+                </button>
+                {importError && (
+                  <div className="text-xs text-red-400">
+                    {importError.message}
+                    <ul className="list-disc pl-4">
+                      {importError.issues.map((issue, index) => (
+                        <li key={index}>
+                          {issue.field || "(root)"}: {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {showDraftPrompt && (
+          <div className="rounded-lg border border-neutral-800 bg-neutral-900 p-4 text-sm text-neutral-200 space-y-3">
+            <div className="font-medium">Resume a saved draft?</div>
+            <ul className="space-y-2">
+              {drafts.map((draft) => (
+                <li key={draft.id} className="flex flex-wrap items-center justify-between gap-2">
+                  <span>
+                    {draft.name}{" "}
+                    <span className="text-xs text-neutral-400">
+                      step {draft.step + 1} of {STEPS.length}, saved {new Date(draft.updatedAt).toLocaleString()}
+                    </span>
+                  </span>
+                  <span className="flex gap-2">
+                    <button type="button" onClick={() => applyDraft(draft)} className="px-3 py-1 rounded-lg bg-neutral-100 text-neutral-900 text-xs">
+                      Resume
+                    </button>
+                    <button type="button" onClick={() => discardDraft(draft)} className="px-3 py-1 rounded-lg border border-neutral-700 text-xs">
+                      Delete
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <button type="button" onClick={startNewDraft} className="text-xs text-neutral-400 underline">
+              Start a new intake
+            </button>
+          </div>
+        )}
+
+        {!editId && (activeDraft || draftError) && (
+          <div className="rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-sm text-neutral-200 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="text-xs text-neutral-400">Draft</label>
+              <input
+                className="flex-1 min-w-[12rem] border rounded-lg px-2 py-1 text-sm bg-neutral-950 text-neutral-100 border-neutral-800"
+                value={draftName}
+                maxLength={100}
+                onChange={(e) => setDraftName(e.target.value)}
+              />
+              {activeDraft && (
+                <span className="text-xs text-neutral-400">Saved {new Date(activeDraft.updatedAt).toLocaleTimeString()}</span>
+              )}
+              {otherDrafts.length > 0 && (
+                <select
+                  className="border rounded-lg px-2 py-1 text-xs bg-neutral-950 text-neutral-100 border-neutral-800"
+                  value=""
+                  onChange={(e) => {
+                    const draft = otherDrafts.find((d) => d.id === e.target.value);
+                    if (draft) applyDraft(draft);
+                  }}
+                >
+                  <option value="">Switch draft...</option>
+                  {otherDrafts.map((draft) => (
+                    <option key={draft.id} value={draft.id}>
+                      {draft.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button type="button" onClick={startNewDraft} className="px-3 py-1 rounded-lg border border-neutral-700 text-xs">
+                New draft
+              </button>
+              {activeDraft && (
+                <button type="button" onClick={() => discardDraft(activeDraft)} className="px-3 py-1 rounded-lg border border-neutral-700 text-xs">
+                  Discard
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-neutral-400">
+              {serverDraftId ? (
+                <>
+                  Resume link:
+                  <code className="break-all text-neutral-200">{`${window.location.origin}/?draft=${serverDraftId}`}</code>
+                  <button
+                    type="button"
+                    onClick={() => void navigator.clipboard.writeText(`${window.location.origin}/?draft=${serverDraftId}`)}
+                    className="underline"
+                  >
+                    Copy
+                  </button>
+                </>
+              ) : (
+                <>
+                  Saved in this browser only.
+                  <button type="button" onClick={() => void createResumeLink()} className="underline">
+                    Create a resume link
+                  </button>
+                </>
+              )}
+            </div>
+            {draftError && <div className="text-xs text-red-400">{draftError}</div>}
+          </div>
+        )}
+
         <div className="flex items-center gap-2 flex-wrap">
-          {steps.map((s, idx) => (
+          {STEPS.map((s, idx) => (
             <span
               key={s.title}
               className={classNames(
@@ -357,7 +745,7 @@ export default function Page() {
         <form
           onSubmit={(e) => {
             e.preventDefault();
-            if (step === steps.length - 1) void onSubmit();
+            if (step === STEPS.length - 1) void onSubmit();
             else void next();
           }}
          className="rounded-xl border border-neutral-800 bg-neutral-950/50 p-5 space-y-6"
@@ -367,6 +755,39 @@ export default function Page() {
             <section className="space-y-4">
               <h2 className="text-lg font-medium">Systems</h2>
 
+              <div className="rounded-lg border border-neutral-800 bg-neutral-900 p-3 space-y-2">
+                <label className="text-sm font-medium">Start from a template (optional)</label>
+                <div className="flex flex-wrap gap-2">
+                  <select
+                    className="flex-1 border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800"
+                    value={templateId}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                  >
+                    <option value="">Choose a CRM and contact center pair...</option>
+                    {INTAKE_TEMPLATES.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={applyTemplate}
+                    disabled={!templateId}
+                    className="px-4 py-2 rounded-lg border border-neutral-700 text-sm disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+                {templateId && <p className="text-xs text-neutral-400">{getTemplate(templateId)?.description}</p>}
+                {appliedTemplate && (
+                  <p className="text-xs text-neutral-300">
+                    {appliedTemplate.label} set: {appliedTemplate.fields.map((f) => TEMPLATE_FIELD_LABELS[f]).join(", ")}. Review them in the
+                    following steps; everything else is unchanged.
+                  </p>
+                )}
+              </div>
+
               <div className="grid md:grid-cols-2 gap-4">
                 <div>
                   <label className="text-sm font-medium">CRM</label>
@@ -441,6 +862,68 @@ export default function Page() {
                   </select>
                   <p className="text-xs text-gray-600 mt-1">Evaluation only (sandbox/demo).</p>
                 </div>
+
+                {(crmCapabilities || contactCenterCapabilities) && (
+                  <div className="md:col-span-2 rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-xs text-neutral-300 space-y-1">
+                    <div className="font-medium text-neutral-100">Platform capabilities</div>
+                    {crmCapabilities && (
+                      <div>
+                        {crmCapabilities.label}: {crmCapabilities.activityObjectTypes.join(", ")} activities; embedded panels show context in{" "}
+                        {crmCapabilities.embeddedPanelSurfaces.map((s) => PLACEMENT_LABELS[s]).join(" or ")}. API: {crmCapabilities.rateLimit.note}.
+                      </div>
+                    )}
+                    {contactCenterCapabilities && (
+                      <div>
+                        {contactCenterCapabilities.label}: events by{" "}
+                        {contactCenterCapabilities.delivery.kind === "webhook"
+                          ? "webhook"
+                          : `polling every ${contactCenterCapabilities.delivery.intervalSeconds}s`}
+                        ; native desktop{" "}
+                        {contactCenterCapabilities.nativeDesktopSurfaces.length > 0
+                          ? `shows context in ${contactCenterCapabilities.nativeDesktopSurfaces.map((s) => PLACEMENT_LABELS[s]).join(" or ")}`
+                          : "has no extension points"}
+                        . API: {contactCenterCapabilities.rateLimit.note}.
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="md:col-span-2">
+                  <label className="text-sm font-medium">CRM field catalog (optional)</label>
+                  <p className="text-xs text-gray-600 mt-1">
+                    Upload a CSV (object, property, type, label columns) or JSON export of your CRM object metadata. ID fields, custom context
+                    fields and the fixed owner are then suggested from it and checked against it.
+                  </p>
+                  {fieldCatalog ? (
+                    <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-neutral-300">
+                      <span>
+                        {fieldCatalog.source.fileName}: {fieldCatalog.objects.length} objects, {countProperties(fieldCatalog)} properties
+                        {fieldCatalog.owners.length > 0 && `, ${fieldCatalog.owners.length} owners`}
+                      </span>
+                      <button
+                        type="button"
+                        className="underline"
+                        onClick={() => form.setValue("crmFieldCatalog", null, { shouldDirty: true })}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <input
+                      type="file"
+                      accept=".csv,.json,text/csv,application/json"
+                      className="mt-2 text-xs"
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        if (!file) return;
+                        const result = parseFieldCatalog(await file.text(), file.name);
+                        setCatalogError(result.ok ? null : result.error);
+                        if (result.ok) form.setValue("crmFieldCatalog", result.catalog, { shouldDirty: true });
+                      }}
+                    />
+                  )}
+                  {catalogError && <p className="text-xs text-red-600 mt-1">{catalogError}</p>}
+                </div>
               </div>
             </section>
           )}
@@ -458,13 +941,100 @@ export default function Page() {
                     <option value="both">Both</option>
                   </select>
                 </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Channels</label>
+                <div className="mt-2 space-y-3">
+                  {CHANNEL_OPTIONS.map((c) => {
+                    const selected = values.channels?.includes(c.id);
+                    const transcriptSetting = TRANSCRIPT_SETTING[c.id];
+                    return (
+                      <div key={c.id} className="space-y-2">
+                        <label className="text-sm flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selected}
+                            onChange={(e) => {
+                              const next = new Set(values.channels || []);
+                              if (e.target.checked) next.add(c.id);
+                              else next.delete(c.id);
+                              form.setValue("channels", CHANNEL_OPTIONS.map((o) => o.id).filter((id) => next.has(id)), { shouldValidate: true });
+                            }}
+                          />
+                          {c.label}
+                        </label>
+
+                        {selected && transcriptSetting && (
+                          <label className="ml-6 text-xs text-neutral-300 flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={values[transcriptSetting]}
+                              onChange={(e) => form.setValue(transcriptSetting, e.target.checked)}
+                            />
+                            Attach conversation transcript to the CRM activity
+                          </label>
+                        )}
+
+                        {selected && c.id === "email" && (
+                          <div className="ml-6">
+                            <label className="text-xs text-neutral-300">CRM field/property for email thread ID (optional)</label>
+                            <input
+                              className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800"
+                              placeholder="e.g., email_thread_id"
+                              {...form.register("emailThreadIdField")}
+                            />
+                            <p className="text-xs text-gray-600 mt-1">Replies with the same thread ID update one activity instead of creating a new one.</p>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                {form.formState.errors.channels && (
+                  <p className="text-xs text-red-600 mt-1">{form.formState.errors.channels.message}</p>
+                )}
+              </div>
 
-                <div className="flex items-center gap-2">
-                  <input type="checkbox" checked={values.voiceOnly} onChange={(e) => form.setValue("voiceOnly", e.target.checked)} />
-                  <label className="text-sm font-medium">Voice-only (v1 scope)</label>
+              <div>
+                <label className="text-sm font-medium">Events and CRM actions</label>
+                <div className="mt-2 space-y-2">
+                  {LIFECYCLE_EVENT_OPTIONS.map((o) => {
+                    const current = values.triggerEvents?.find((e) => e.event === o.id);
+                    const update = (next: TriggerEventInput[]) => {
+                      const byEvent = new Map(next.map((e) => [e.event, e]));
+                      const ordered = LIFECYCLE_EVENT_OPTIONS.flatMap((opt) => byEvent.get(opt.id) ?? []);
+                      form.setValue("triggerEvents", ordered, { shouldValidate: true });
+                    };
+                    const others = (values.triggerEvents || []).filter((e) => e.event !== o.id);
+                    return (
+                      <div key={o.id} className="grid grid-cols-[1fr_auto] items-center gap-3">
+                        <label className="text-sm flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(current)}
+                            onChange={(e) => update(e.target.checked ? [...others, { event: o.id, action: o.defaultAction }] : others)}
+                          />
+                          {o.label}
+                        </label>
+                        <select
+                          className="border rounded-lg p-1 text-sm bg-neutral-900 text-neutral-100 border-neutral-800 disabled:opacity-40"
+                          disabled={!current}
+                          value={current?.action ?? o.defaultAction}
+                          onChange={(e) => update([...others, { event: o.id, action: e.target.value as TriggerEventInput["action"] }])}
+                        >
+                          <option value="create_activity">Create activity</option>
+                          <option value="update_activity">Update activity</option>
+                          <option value="create_task">Create follow-up task</option>
+                        </select>
+                      </div>
+                    );
+                  })}
                 </div>
+                {form.formState.errors.triggerEvents && (
+                  <p className="text-xs text-red-600 mt-1">{form.formState.errors.triggerEvents.message}</p>
+                )}
               </div>
-              <p className="text-xs text-gray-600">v1 is voice interactions only. Multi-channel support planned for future versions.</p>
             </section>
           )}
 
@@ -480,16 +1050,42 @@ export default function Page() {
                     <option value="task">Task</option>
                     <option value="note">Note</option>
                   </select>
+                  {form.formState.errors.crmActivityObjectType && (
+                    <p className="text-xs text-red-600 mt-1">{form.formState.errors.crmActivityObjectType.message}</p>
+                  )}
                 </div>
 
-                <div>
+                <div className="md:col-span-2">
                   <label className="text-sm font-medium">Subject template</label>
                   <input className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("subjectTemplate")} />
-                  {form.formState.errors.subjectTemplate && (
-                    <p className="text-xs text-red-600 mt-1">{form.formState.errors.subjectTemplate.message}</p>
-                  )}
+                  {subjectLint.length > 0
+                    ? subjectLint.map((message) => (
+                        <p key={message} className="text-xs text-red-600 mt-1">{message}</p>
+                      ))
+                    : form.formState.errors.subjectTemplate && (
+                        <p className="text-xs text-red-600 mt-1">{form.formState.errors.subjectTemplate.message}</p>
+                      )}
+                  <div className="mt-2 rounded-lg border border-neutral-800 bg-neutral-900/60 p-2 text-sm">
+                    <span className="text-xs text-neutral-500">Preview: </span>
+                    <span className="text-neutral-100">{subjectPreview}</span>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {templateVariables.map((v) => (
+                      <button
+                        key={v.name}
+                        type="button"
+                        title={`${v.label} (e.g. ${v.sample})`}
+                        onClick={() =>
+                          form.setValue("subjectTemplate", `${values.subjectTemplate ?? ""} {{${v.name}}}`.trim(), { shouldValidate: true })
+                        }
+                        className="rounded-full border border-neutral-800 bg-neutral-900 px-2 py-0.5 font-mono text-xs text-neutral-200 hover:border-neutral-500"
+                      >
+                        {`{{${v.name}}}`}
+                      </button>
+                    ))}
+                  </div>
                   <p className="text-xs text-gray-600 mt-1">
-                    Tokens supported in v1: <code>{"{{ani}}"}</code>, <code>{"{{dnis}}"}</code>, <code>{"{{interactionId}}"}</code>
+                    Click a variable to append it. Filters: <code>{"{{timestamp | date:\"YYYY-MM-DD HH:mm\"}}"}</code>, <code>upper</code>, <code>lower</code>, <code>truncate:40</code>, <code>default:&quot;Unknown&quot;</code>
                   </p>
                 </div>
 
@@ -522,6 +1118,267 @@ export default function Page() {
           )}
 
           {step === 3 && (
+            <section className="space-y-4">
+              <h2 className="text-lg font-medium">Field Mapping</h2>
+              <p className="text-sm text-gray-600">
+                Copy contact center attributes onto properties of the CRM activity. Custom IVR data is available as <code>ivr.&lt;name&gt;</code>.
+              </p>
+
+              <datalist id="mapping-sources">
+                {getSourceAttributes(values.contactCenter).map((a) => (
+                  <option key={a.name} value={a.name} label={a.label} />
+                ))}
+              </datalist>
+              <datalist id="mapping-targets">
+                {propertyOptions(fieldCatalog, values.crmActivityObjectType).map((o) => (
+                  <option key={o.value} value={o.value} label={o.label} />
+                ))}
+              </datalist>
+
+              {fieldMappings.length === 0 && <p className="text-xs text-neutral-400">No mappings yet. Only the subject and IDs are written.</p>}
+
+              {fieldMappings.map((mapping, index) => {
+                const transform = mapping.transform;
+                const errors = collectErrorMessages(form.formState.errors.fieldMappings?.[index]);
+                return (
+                  <div key={index} className="rounded-lg border border-neutral-800 p-3 space-y-2">
+                    <div className="grid md:grid-cols-3 gap-2">
+                      <input
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        placeholder="Source, e.g. queue"
+                        list="mapping-sources"
+                        value={mapping.source}
+                        onChange={(e) => updateMapping(index, { source: e.target.value })}
+                      />
+                      <input
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        placeholder="CRM property, e.g. hs_call_queue"
+                        list="mapping-targets"
+                        value={mapping.target}
+                        onChange={(e) => updateMapping(index, { target: e.target.value })}
+                      />
+                      <select
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        value={transform.type}
+                        onChange={(e) => updateMapping(index, { transform: TRANSFORM_DEFAULTS[e.target.value as FieldTransform["type"]] })}
+                      >
+                        <option value="none">Copy as is</option>
+                        <option value="lookup">Lookup table</option>
+                        <option value="duration">Format duration</option>
+                        <option value="truncate">Truncate</option>
+                      </select>
+                    </div>
+
+                    {transform.type === "lookup" && (
+                      <div className="grid md:grid-cols-2 gap-2">
+                        <textarea
+                          key={`${index}:${formatLookupTable(transform.table)}`}
+                          className="w-full border rounded-lg p-2 font-mono text-xs bg-neutral-900 text-neutral-100 border-neutral-800"
+                          rows={3}
+                          placeholder={"One per line: source value = CRM value\nSALE = Closed won"}
+                          defaultValue={formatLookupTable(transform.table)}
+                          onBlur={(e) => updateMapping(index, { transform: { ...transform, table: parseLookupTable(e.target.value) } })}
+                        />
+                        <input
+                          className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                          placeholder="Other values: leave empty to pass through"
+                          value={transform.fallback ?? ""}
+                          onChange={(e) => updateMapping(index, { transform: { ...transform, fallback: e.target.value || null } })}
+                        />
+                      </div>
+                    )}
+                    {transform.type === "duration" && (
+                      <select
+                        className="border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        value={transform.format}
+                        onChange={(e) => updateMapping(index, { transform: { ...transform, format: e.target.value as typeof transform.format } })}
+                      >
+                        <option value="seconds">Seconds</option>
+                        <option value="minutes">Minutes</option>
+                        <option value="hh_mm_ss">hh:mm:ss</option>
+                      </select>
+                    )}
+                    {transform.type === "truncate" && (
+                      <label className="text-sm flex items-center gap-2">
+                        Max characters
+                        <input
+                          type="number"
+                          min={1}
+                          className="w-28 border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                          value={transform.maxLength}
+                          onChange={(e) => updateMapping(index, { transform: { ...transform, maxLength: Number(e.target.value) } })}
+                        />
+                      </label>
+                    )}
+
+                    {errors.map((message) => (
+                      <p key={message} className="text-xs text-red-600">{message}</p>
+                    ))}
+                    <button
+                      type="button"
+                      className="text-xs underline text-neutral-400"
+                      onClick={() => form.setValue("fieldMappings", fieldMappings.filter((_, i) => i !== index), { shouldDirty: true, shouldValidate: true })}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+
+              {form.formState.errors.fieldMappings?.message && (
+                <p className="text-xs text-red-600">{form.formState.errors.fieldMappings.message}</p>
+              )}
+              <button
+                type="button"
+                className="rounded-lg border border-neutral-700 px-3 py-1.5 text-sm hover:border-neutral-500"
+                onClick={() => form.setValue("fieldMappings", [...fieldMappings, { source: "", target: "", transform: { type: "none" } }], { shouldDirty: true })}
+              >
+                Add mapping
+              </button>
+            </section>
+          )}
+
+          {step === 4 && (
+            <section className="space-y-4">
+              <h2 className="text-lg font-medium">Dispositions</h2>
+              <p className="text-sm text-gray-600">
+                Map each disposition or wrap-up code to what should happen in the CRM. The code is read from <code>{dispositionAttribute(values.contactCenter)}</code>{" "}
+                when the interaction is wrapped up.
+              </p>
+
+              <div className="rounded-lg border border-neutral-800 p-3 space-y-2">
+                <label className="text-sm font-medium">Import codes</label>
+                <p className="text-xs text-neutral-400">One per line as <code>code,label</code>. Codes already listed keep their outcome.</p>
+                <input
+                  type="file"
+                  accept=".csv,.txt,text/csv,text/plain"
+                  className="text-xs"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importDispositionCodes(await file.text());
+                  }}
+                />
+                <textarea
+                  className="w-full border rounded-lg p-2 font-mono text-xs bg-neutral-900 text-neutral-100 border-neutral-800"
+                  rows={3}
+                  placeholder={"SALE,Sale made\nCALLBACK,Callback requested\nNOANSWER"}
+                  value={dispositionText}
+                  onChange={(e) => setDispositionText(e.target.value)}
+                />
+                <button
+                  type="button"
+                  className="rounded-lg border border-neutral-700 px-3 py-1.5 text-sm hover:border-neutral-500 disabled:opacity-40"
+                  disabled={!dispositionText.trim()}
+                  onClick={() => importDispositionCodes(dispositionText)}
+                >
+                  Add codes
+                </button>
+                {dispositionError && <p className="text-xs text-red-600">{dispositionError}</p>}
+              </div>
+
+              {dispositions.length === 0 && <p className="text-xs text-neutral-400">No codes yet. Dispositions are not written to the CRM.</p>}
+
+              {dispositions.map((disposition, index) => {
+                const outcome = disposition.outcome;
+                const errors = collectErrorMessages(form.formState.errors.dispositions?.[index]);
+                return (
+                  <div key={index} className="rounded-lg border border-neutral-800 p-3 space-y-2">
+                    <div className="grid md:grid-cols-3 gap-2">
+                      <input
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        placeholder="Code, e.g. SALE"
+                        value={disposition.code}
+                        onChange={(e) => updateDisposition(index, { code: e.target.value })}
+                      />
+                      <input
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        placeholder="Label (optional)"
+                        value={disposition.label}
+                        onChange={(e) => updateDisposition(index, { label: e.target.value })}
+                      />
+                      <select
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        value={outcome?.type ?? ""}
+                        onChange={(e) =>
+                          updateDisposition(index, {
+                            outcome: e.target.value ? OUTCOME_DEFAULTS[e.target.value as DispositionOutcome["type"]] : null,
+                          })
+                        }
+                      >
+                        <option value="">Choose an outcome…</option>
+                        <option value="activity_status">Set activity status</option>
+                        <option value="follow_up_task">Create follow-up task</option>
+                        <option value="deal_stage">Move deal stage</option>
+                        <option value="none">No change</option>
+                      </select>
+                    </div>
+
+                    {outcome?.type === "activity_status" && (
+                      <input
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        placeholder={values.crm === "salesforce" ? "Task status, e.g. Completed" : "Status, e.g. COMPLETED"}
+                        value={outcome.status}
+                        onChange={(e) => updateDisposition(index, { outcome: { ...outcome, status: e.target.value } })}
+                      />
+                    )}
+                    {outcome?.type === "follow_up_task" && (
+                      <div className="grid md:grid-cols-[1fr_auto] gap-2">
+                        <input
+                          className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                          placeholder="Task subject"
+                          value={outcome.subject}
+                          onChange={(e) => updateDisposition(index, { outcome: { ...outcome, subject: e.target.value } })}
+                        />
+                        <label className="text-sm flex items-center gap-2">
+                          Due in days
+                          <input
+                            type="number"
+                            min={0}
+                            max={90}
+                            className="w-20 border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                            value={outcome.dueInDays}
+                            onChange={(e) => updateDisposition(index, { outcome: { ...outcome, dueInDays: Number(e.target.value) } })}
+                          />
+                        </label>
+                      </div>
+                    )}
+                    {outcome?.type === "deal_stage" && (
+                      <input
+                        className="w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                        placeholder={values.crm === "salesforce" ? "Opportunity stage, e.g. Negotiation/Review" : "Deal stage ID, e.g. contractsent"}
+                        value={outcome.stage}
+                        onChange={(e) => updateDisposition(index, { outcome: { ...outcome, stage: e.target.value } })}
+                      />
+                    )}
+
+                    {errors.map((message) => (
+                      <p key={message} className="text-xs text-red-600">{message}</p>
+                    ))}
+                    <button
+                      type="button"
+                      className="text-xs underline text-neutral-400"
+                      onClick={() => form.setValue("dispositions", dispositions.filter((_, i) => i !== index), { shouldDirty: true, shouldValidate: true })}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+
+              {form.formState.errors.dispositions?.message && (
+                <p className="text-xs text-red-600">{form.formState.errors.dispositions.message}</p>
+              )}
+              <button
+                type="button"
+                className="rounded-lg border border-neutral-700 px-3 py-1.5 text-sm hover:border-neutral-500"
+                onClick={() => form.setValue("dispositions", [...dispositions, { code: "", label: "", outcome: null }], { shouldDirty: true })}
+              >
+                Add code
+              </button>
+            </section>
+          )}
+
+          {step === 5 && (
             <section className="space-y-4">
               <h2 className="text-lg font-medium">Matching</h2>
 
@@ -555,20 +1412,103 @@ export default function Page() {
               </div>
 
               {values.matchingStrategy?.includes("ani_phone_match") && (
-                <div>
-                  <label className="text-sm font-medium">Phone normalization</label>
-                  <select className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("phoneNormalization")}>
-                    <option value="us_e164">US E.164 normalize (recommended)</option>
-                    <option value="as_is">Keep as-is</option>
-                    <option value="other">Other</option>
-                  </select>
+                <div className="space-y-4">
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="text-sm font-medium">Phone normalization</label>
+                      <select className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("phoneNormalization")}>
+                        <option value="e164">E.164 normalize (recommended)</option>
+                        <option value="as_is">Keep as-is</option>
+                        <option value="other">Other</option>
+                      </select>
+                    </div>
+
+                    {values.phoneNormalization === "e164" && (
+                      <div>
+                        <label className="text-sm font-medium">Default country</label>
+                        <select className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("phoneDefaultCountry")}>
+                          {PHONE_COUNTRY_CODES.map((code) => (
+                            <option key={code} value={code}>
+                              {PHONE_COUNTRIES[code].label} (+{PHONE_COUNTRIES[code].callingCode})
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-600 mt-1">Used for numbers that arrive without a country code.</p>
+                      </div>
+                    )}
+
+                    {values.phoneNormalization === "other" && (
+                      <div>
+                        <label className="text-sm font-medium">Describe the rule</label>
+                        <input
+                          className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800"
+                          placeholder="e.g., last 10 digits only"
+                          {...form.register("phoneOtherRule")}
+                        />
+                        {form.formState.errors.phoneOtherRule && (
+                          <p className="text-xs text-red-600 mt-1">{form.formState.errors.phoneOtherRule.message}</p>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="md:col-span-2 flex items-center gap-2">
+                      <input type="checkbox" checked={values.phoneStripExtension} onChange={(e) => form.setValue("phoneStripExtension", e.target.checked)} />
+                      <span className="text-sm">Strip extensions (e.g. &quot;x204&quot;, &quot;ext. 12&quot;) before matching</span>
+                    </div>
+                  </div>
+
+                  <div className="rounded-lg border border-neutral-800 bg-neutral-900/60 p-3 space-y-2">
+                    <label className="text-sm font-medium">Try it</label>
+                    <textarea
+                      className="w-full border rounded-lg p-2 font-mono text-xs bg-neutral-900 text-neutral-100 border-neutral-800"
+                      rows={3}
+                      placeholder="Paste sample ANIs, one per line"
+                      value={phoneSamples}
+                      onChange={(e) => setPhoneSamples(e.target.value)}
+                    />
+                    <table className="w-full text-left text-xs">
+                      <tbody>
+                        {phoneSamples
+                          .split("\n")
+                          .map((line) => line.trim())
+                          .filter(Boolean)
+                          .map((sample, idx) => {
+                            const result = normalizePhone(sample, {
+                              rule: values.phoneNormalization,
+                              defaultCountry: values.phoneDefaultCountry,
+                              stripExtension: values.phoneStripExtension,
+                            });
+                            return (
+                              <tr key={`${sample}-${idx}`} className="border-t border-neutral-800">
+                                <td className="py-1 pr-4 font-mono text-neutral-400">{sample}</td>
+                                <td className="py-1 font-mono">
+                                  {result.ok ? (
+                                    <span className="text-neutral-100">
+                                      {result.value}
+                                      {result.extension && <span className="text-neutral-500"> (ext. {result.extension})</span>}
+                                    </span>
+                                  ) : (
+                                    <span className="text-red-500">{result.error}</span>
+                                  )}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                      </tbody>
+                    </table>
+                  </div>
                 </div>
               )}
 
               {values.matchingStrategy?.includes("external_id") && (
                 <div>
                   <label className="text-sm font-medium">External ID field name in CRM</label>
-                  <input className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" placeholder="e.g., customer_id" {...form.register("externalIdField")} />
+                  <input className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" placeholder="e.g., customer_id" list="catalog-external-id" {...form.register("externalIdField")} />
+                  <datalist id="catalog-external-id">
+                    {propertyOptions(fieldCatalog, "contact", true).map((o) => (
+                      <option key={o.value} value={o.value} label={o.label} />
+                    ))}
+                  </datalist>
                   {form.formState.errors.externalIdField && (
                     <p className="text-xs text-red-600 mt-1">{form.formState.errors.externalIdField.message}</p>
                   )}
@@ -577,7 +1517,7 @@ export default function Page() {
             </section>
           )}
 
-          {step === 4 && (
+          {step === 6 && (
             <section className="space-y-4">
               <h2 className="text-lg font-medium">Context Injection</h2>
 
@@ -612,20 +1552,45 @@ export default function Page() {
                   placeholder="Comma-separated field IDs (e.g., contact.membershipId, contact.segment)"
                   {...form.register("customContextFields")}
                 />
+                {customContextOptions.length > 0 && (
+                  <select
+                    className="mt-2 w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                    value=""
+                    onChange={(e) => {
+                      const current = (values.customContextFields || "").split(",").map((f) => f.trim()).filter(Boolean);
+                      if (e.target.value && !current.includes(e.target.value)) {
+                        form.setValue("customContextFields", [...current, e.target.value].join(", "), { shouldValidate: true });
+                      }
+                    }}
+                  >
+                    <option value="">Add a field from the catalog...</option>
+                    {customContextOptions.map((o) => (
+                      <option key={o.value} value={o.value}>
+                        {o.value} - {o.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {form.formState.errors.customContextFields && (
+                  <p className="text-xs text-red-600 mt-1">{form.formState.errors.customContextFields.message}</p>
+                )}
               </div>
 
               <div>
                 <label className="text-sm font-medium">Where should the context appear?</label>
                 <select className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("contextPlacement")}>
-                  <option value="interaction_tab">Interaction tab (recommended)</option>
+                  <option value="interaction_tab">Interaction tab</option>
                   <option value="sidebar">Sidebar panel</option>
                   <option value="unknown">Not sure</option>
                 </select>
+                {form.formState.errors.contextPlacement && (
+                  <p className="text-xs text-red-600 mt-1">{form.formState.errors.contextPlacement.message}</p>
+                )}
               </div>
             </section>
           )}
 
-          {step === 5 && (
+          {step === 7 && (
             <section className="space-y-4">
               <h2 className="text-lg font-medium">Ownership & Audit</h2>
 
@@ -642,7 +1607,12 @@ export default function Page() {
                 {values.ownerStrategy === "fixed_owner" && (
                   <div>
                     <label className="text-sm font-medium">Fixed owner identifier</label>
-                    <input className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" placeholder="e.g., revops_queue@company.com" {...form.register("fixedOwner")} />
+                    <input className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" placeholder="e.g., revops_queue@company.com" list="catalog-owners" {...form.register("fixedOwner")} />
+                    <datalist id="catalog-owners">
+                      {(fieldCatalog?.owners ?? []).map((o) => (
+                        <option key={o.id} value={o.email ?? o.id} label={o.name ?? undefined} />
+                      ))}
+                    </datalist>
                     {form.formState.errors.fixedOwner && (
                       <p className="text-xs text-red-600 mt-1">{form.formState.errors.fixedOwner.message}</p>
                     )}
@@ -657,7 +1627,12 @@ export default function Page() {
                 {values.storeCallId && (
                   <div className="md:col-span-2">
                     <label className="text-sm font-medium">CRM field/property for interaction ID</label>
-                    <input className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("callIdField")} />
+                    <input className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" list="catalog-call-id" {...form.register("callIdField")} />
+                    <datalist id="catalog-call-id">
+                      {propertyOptions(fieldCatalog, values.crmActivityObjectType, true).map((o) => (
+                        <option key={o.value} value={o.value} label={o.label} />
+                      ))}
+                    </datalist>
                     {form.formState.errors.callIdField && (
                       <p className="text-xs text-red-600 mt-1">{form.formState.errors.callIdField.message}</p>
                     )}
@@ -667,7 +1642,7 @@ export default function Page() {
             </section>
           )}
 
-          {step === 6 && (
+          {step === 8 && (
             <section className="space-y-4">
               <h2 className="text-lg font-medium">Reliability</h2>
 
@@ -703,7 +1678,7 @@ export default function Page() {
             </section>
           )}
 
-          {step === 7 && (
+          {step === 9 && (
             <section className="space-y-4">
               <h2 className="text-lg font-medium">Security</h2>
 
@@ -740,10 +1715,187 @@ export default function Page() {
             </section>
           )}
 
-          {step === 8 && (
+          {step === 10 && (
+            <section className="space-y-4">
+              <h2 className="text-lg font-medium">Recordings & Consent</h2>
+              <p className="text-sm text-gray-600">What call recordings and transcripts reach the CRM, how long they are kept and what consent they need.</p>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm flex items-center gap-2">
+                    <input type="checkbox" {...form.register("attachRecordingLink")} />
+                    Attach recording links to CRM activities
+                  </label>
+                  {form.formState.errors.attachRecordingLink && (
+                    <p className="text-xs text-red-600 mt-1">{form.formState.errors.attachRecordingLink.message}</p>
+                  )}
+                  {values.attachRecordingLink && (
+                    <div className="mt-2">
+                      <label className="text-xs text-neutral-300">Keep recordings for</label>
+                      <select className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("recordingRetention")}>
+                        {Object.entries(RETENTION_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      {form.formState.errors.recordingRetention && (
+                        <p className="text-xs text-red-600 mt-1">{form.formState.errors.recordingRetention.message}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className="text-sm flex items-center gap-2">
+                    <input type="checkbox" {...form.register("attachCallTranscript")} />
+                    Attach call transcripts to CRM activities
+                  </label>
+                  {form.formState.errors.attachCallTranscript && (
+                    <p className="text-xs text-red-600 mt-1">{form.formState.errors.attachCallTranscript.message}</p>
+                  )}
+                  {values.attachCallTranscript && (
+                    <div className="mt-2">
+                      <label className="text-xs text-neutral-300">Keep transcripts for</label>
+                      <select className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("transcriptRetention")}>
+                        {Object.entries(RETENTION_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      {form.formState.errors.transcriptRetention && (
+                        <p className="text-xs text-red-600 mt-1">{form.formState.errors.transcriptRetention.message}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Callers in all-party consent regions</label>
+                <p className="text-xs text-neutral-400">Every party must agree before a call there is recorded. Check with counsel; this list is not legal advice.</p>
+                <div className="mt-2 grid md:grid-cols-3 gap-2">
+                  {CONSENT_REGION_ENUM.options.map((region) => (
+                    <label key={region} className="text-sm flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={values.consentRegions?.includes(region)}
+                        onChange={(e) => {
+                          const next = new Set(values.consentRegions || []);
+                          if (e.target.checked) next.add(region);
+                          else next.delete(region);
+                          form.setValue("consentRegions", CONSENT_REGION_ENUM.options.filter((r) => next.has(r)), { shouldDirty: true });
+                        }}
+                      />
+                      {CONSENT_REGION_LABELS[region]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium">How consent is captured</label>
+                  <select className="mt-1 w-full border rounded-lg p-2 bg-neutral-900 text-neutral-100 border-neutral-800" {...form.register("consentMethod")}>
+                    {Object.entries(CONSENT_METHOD_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  {form.formState.errors.consentMethod && (
+                    <p className="text-xs text-red-600 mt-1">{form.formState.errors.consentMethod.message}</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Redact from transcripts</label>
+                <div className="mt-2 space-y-1">
+                  {REDACTION_ENUM.options.map((kind) => (
+                    <label key={kind} className="text-sm flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={values.redaction?.includes(kind)}
+                        onChange={(e) => {
+                          const next = new Set(values.redaction || []);
+                          if (e.target.checked) next.add(kind);
+                          else next.delete(kind);
+                          form.setValue("redaction", REDACTION_ENUM.options.filter((r) => next.has(r)), {
+                            shouldDirty: true,
+                            shouldValidate: !!form.formState.errors.redaction,
+                          });
+                        }}
+                      />
+                      {REDACTION_LABELS[kind]}
+                    </label>
+                  ))}
+                </div>
+                {form.formState.errors.redaction && (
+                  <p className="text-xs text-red-600 mt-1">{form.formState.errors.redaction.message}</p>
+                )}
+              </div>
+            </section>
+          )}
+
+          {step === 11 && (
             <section className="space-y-4">
               <h2 className="text-lg font-medium">Review & Submit</h2>
 
+              {importReport && (
+                <div className="rounded-lg border border-neutral-800 bg-neutral-900 p-3 text-sm text-neutral-200 space-y-2">
+                  <div className="font-medium">Imported a {importReport.fromVersion} blueprint</div>
+                  {importReport.unmapped.length === 0 && importReport.issues.length === 0 ? (
+                    <div className="text-xs text-neutral-400">Every field was mapped.</div>
+                  ) : (
+                    <ul className="list-disc pl-4 text-xs text-amber-200 space-y-1">
+                      {importReport.unmapped.map((entry, index) => (
+                        <li key={`unmapped-${index}`}>
+                          <span className="font-mono">{entry.path}</span>: {describeUnmapped(entry)}
+                        </li>
+                      ))}
+                      {importReport.issues.map((issue, index) => (
+                        <li key={`issue-${index}`}>
+                          <span className="font-mono">{issue.field}</span>: {issue.message} (fix before submitting)
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {editId && (
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="text-sm font-medium">Your name</label>
+                    <input
+                      className="mt-1 w-full border rounded-lg p-2"
+                      placeholder="e.g., Dana Lee"
+                      maxLength={100}
+                      value={author}
+                      onChange={(e) => setAuthor(e.target.value)}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="text-sm font-medium">What changed? (optional)</label>
+                    <textarea
+                      className="mt-1 w-full border rounded-lg p-2 text-sm bg-neutral-900 text-neutral-100 border-neutral-800"
+                      rows={2}
+                      maxLength={500}
+                      placeholder="e.g., Added SMS and switched to external ID matching"
+                      value={changeNote}
+                      onChange={(e) => setChangeNote(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {normalized && normalized.warnings.length > 0 && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm">
+                  <div className="font-medium">Warnings</div>
+                  <ul className="list-disc pl-4 text-gray-700">
+                    {normalized.warnings.map((w) => (
+                      <li key={w}>{w}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               <div className="rounded-lg bg-gray-50 p-3 border border-gray-200 text-gray-900">
                 <div className="text-xs text-gray-600 mb-2">Normalized Intake JSON (preview)</div>
                 <pre className="text-xs overflow-auto">{JSON.stringify(normalized, null, 2)}</pre>
@@ -779,7 +1931,7 @@ export default function Page() {
               Back
             </button>
 
-            {step < steps.length - 1 ? (
+            {step < STEPS.length - 1 ? (
               <button type="submit" className="px-4 py-2 rounded-lg bg-black text-white hover:opacity-90">
                 Next
               </button>
@@ -787,10 +1939,10 @@ export default function Page() {
               <button
                 type="button"
                 onClick={() => void onSubmit()}
-                disabled={submitState === "submitting"}
+                disabled={submitState === "submitting" || (!!editId && !editing)}
                 className="px-4 py-2 rounded-lg bg-black text-white hover:opacity-90 disabled:opacity-50"
               >
-                {submitState === "submitting" ? "Submitting..." : "Submit intake"}
+                {submitState === "submitting" ? "Submitting..." : editId ? "Save revision" : "Submit intake"}
               </button>
             )}
           </div>
@@ -0,0 +1,20 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Checks the `Authorization: Bearer <ADMIN_TOKEN>` header. Returns an error response to send
+ * back, or null when the caller is allowed. Admin routes are disabled when ADMIN_TOKEN is unset.
+ */
+export function checkAdmin(req: Request): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ ok: false, error: "Admin endpoints are disabled" }, { status: 404 });
+  }
+
+  const given = Buffer.from(req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "");
+  const expected = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { anchorPaths } from "@/lib/blueprints/diff";
+import { getRevisions } from "@/lib/blueprints/revisions";
+import { getBlueprintStore, withBlueprintLock, type CommentThread } from "@/lib/blueprints/store";
+import { upgradeBlueprint } from "@/lib/blueprints/versions";
+
+// Dotted field paths, optionally addressing list items: matching.externalIdField, trigger.channels[sms].
+const ANCHOR_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z0-9_]+|\[[A-Za-z0-9_.-]+\])*$/;
+
+const Author = z.string().trim().min(1, "Your name is required").max(100);
+const Body = z.string().trim().min(1, "Comment is empty").max(2000);
+
+export const CommentActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("start"),
+    anchor: z.string().max(200).regex(ANCHOR_PATTERN, "Anchor must be a blueprint section or field path"),
+    author: Author,
+    body: Body,
+  }),
+  z.object({ type: z.literal("reply"), threadId: z.string(), author: Author, body: Body }),
+  z.object({ type: z.literal("resolve"), threadId: z.string(), author: Author }),
+  z.object({ type: z.literal("unresolve"), threadId: z.string(), author: Author }),
+]);
+
+export type CommentAction = z.infer<typeof CommentActionSchema>;
+
+export function countUnresolved(threads: CommentThread[]): number {
+  return threads.filter((t) => !t.resolved).length;
+}
+
+export type CommentActionResult =
+  | { ok: true; threads: CommentThread[] }
+  | { ok: false; reason: "not_found" | "thread_not_found" | "invalid_anchor"; error: string };
+
+export function recordCommentAction(id: string, action: CommentAction): Promise<CommentActionResult> {
+  return withBlueprintLock(id, async () => {
+    const store = getBlueprintStore();
+    const record = await store.get(id);
+    if (!record) return { ok: false, reason: "not_found", error: "Blueprint not found" };
+
+    const threads = record.comments ?? [];
+    const now = new Date().toISOString();
+    let next: CommentThread[];
+
+    if (action.type === "start") {
+      // Anchors must be a section or field path of the current version's shape, as offered on the blueprint page.
+      const upgraded = upgradeBlueprint(record.blueprint);
+      const document = upgraded.ok ? upgraded.blueprint : record.blueprint;
+      if (!anchorPaths(document).includes(action.anchor)) {
+        return { ok: false, reason: "invalid_anchor", error: `Blueprint has no section or field "${action.anchor}"` };
+      }
+      const revisions = getRevisions(record);
+      next = [
+        ...threads,
+        {
+          id: crypto.randomUUID(),
+          anchor: action.anchor,
+          revision: revisions[revisions.length - 1].revision,
+          resolved: false,
+          resolvedBy: null,
+          resolvedAt: null,
+          comments: [{ id: crypto.randomUUID(), author: action.author, body: action.body, createdAt: now }],
+          createdAt: now,
+        },
+      ];
+    } else {
+      const thread = threads.find((t) => t.id === action.threadId);
+      if (!thread) return { ok: false, reason: "thread_not_found", error: "Comment thread not found" };
+
+      const updated: CommentThread =
+        action.type === "reply"
+          ? { ...thread, comments: [...thread.comments, { id: crypto.randomUUID(), author: action.author, body: action.body, createdAt: now }] }
+          : action.type === "resolve"
+            ? { ...thread, resolved: true, resolvedBy: action.author, resolvedAt: now }
+            : { ...thread, resolved: false, resolvedBy: null, resolvedAt: null };
+      next = threads.map((t) => (t.id === thread.id ? updated : t));
+    }
+
+    await store.put({ ...record, comments: next });
+    return { ok: true, threads: next };
+  });
+}
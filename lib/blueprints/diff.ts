@@ -0,0 +1,147 @@
+export type DiffKind = "added" | "removed" | "changed";
+
+export type DiffEntry = {
+  // Dotted path; list items that have an identity are addressed by it, e.g. trigger.channels[sms].attachTranscript.
+  path: string;
+  kind: DiffKind;
+  from?: unknown;
+  to?: unknown;
+};
+
+export type DiffSection = { title: string; entries: DiffEntry[] };
+
+export type BlueprintDiff = { sections: DiffSection[]; total: number };
+
+// Same grouping as the blueprint summary (lib/notify/email.ts); context injection is shown under Matching there.
+const SECTIONS: Array<{ title: string; keys: string[] }> = [
+  { title: "General", keys: ["version", "mode", "warnings"] },
+  { title: "Connected Systems", keys: ["systems"] },
+  { title: "Trigger", keys: ["trigger"] },
+  { title: "CRM Activity", keys: ["crmActivity"] },
+  { title: "Dispositions", keys: ["dispositions"] },
+  { title: "Matching", keys: ["matching", "contextInjection"] },
+  { title: "Ownership", keys: ["ownership"] },
+  { title: "Reliability", keys: ["reliability"] },
+  { title: "Security", keys: ["security"] },
+  { title: "CRM Field Catalog", keys: ["crmFieldCatalog"] },
+];
+
+// Object lists whose items are matched by a field rather than by position. Nested lists use "[]"
+// for the parent item, e.g. crmFieldCatalog.objects[].properties.
+const LIST_KEYS: Record<string, string> = {
+  "trigger.channels": "type",
+  "trigger.events": "lifecycle",
+  "crmActivity.fieldMappings": "target",
+  dispositions: "code",
+  "crmFieldCatalog.objects": "name",
+  "crmFieldCatalog.objects[].properties": "name",
+  "crmFieldCatalog.owners": "id",
+};
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || typeof value !== "object";
+}
+
+function diffValues(path: string, from: unknown, to: unknown, out: DiffEntry[]): void {
+  if (from === undefined && to === undefined) return;
+  if (from === undefined) {
+    out.push({ path, kind: "added", to });
+    return;
+  }
+  if (to === undefined) {
+    out.push({ path, kind: "removed", from });
+    return;
+  }
+
+  if (isObject(from) && isObject(to)) {
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      diffValues(path ? `${path}.${key}` : key, from[key], to[key], out);
+    }
+    return;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    diffArrays(path, from, to, out);
+    return;
+  }
+
+  if (JSON.stringify(from) !== JSON.stringify(to)) {
+    out.push({ path, kind: "changed", from, to });
+  }
+}
+
+function diffArrays(path: string, from: unknown[], to: unknown[], out: DiffEntry[]): void {
+  // Lists of values (strategies, associations, fields) are reported item by item; a pure reorder
+  // still matters for ordered lists such as matching.strategy, so it shows as a change.
+  if (from.every(isPrimitive) && to.every(isPrimitive)) {
+    const removed = from.filter((v) => !to.includes(v));
+    const added = to.filter((v) => !from.includes(v));
+    for (const v of removed) out.push({ path, kind: "removed", from: v });
+    for (const v of added) out.push({ path, kind: "added", to: v });
+    if (removed.length === 0 && added.length === 0 && JSON.stringify(from) !== JSON.stringify(to)) {
+      out.push({ path, kind: "changed", from, to });
+    }
+    return;
+  }
+
+  const key = LIST_KEYS[path.replace(/\[[^\]]*\]/g, "[]")];
+  if (key) {
+    const byKey = (items: unknown[]) => new Map(items.filter(isObject).map((item) => [String(item[key]), item]));
+    const before = byKey(from);
+    const after = byKey(to);
+    for (const id of new Set([...before.keys(), ...after.keys()])) {
+      diffValues(`${path}[${id}]`, before.get(id), after.get(id), out);
+    }
+    return;
+  }
+
+  for (let i = 0; i < Math.max(from.length, to.length); i++) {
+    diffValues(`${path}[${i}]`, from[i], to[i], out);
+  }
+}
+
+/** Summary section title for a blueprint path such as "matching.strategy" or "trigger.channels[sms]". */
+export function sectionTitleFor(path: string): string {
+  const top = path.split(/[.[]/)[0];
+  return SECTIONS.find((s) => s.keys.includes(top))?.title ?? "General";
+}
+
+/** Field-level differences between two blueprints of the same version, grouped like the summary. */
+export function diffBlueprints(from: Json, to: Json): BlueprintDiff {
+  const entries: DiffEntry[] = [];
+  diffValues("", from, to, entries);
+
+  const sections = SECTIONS.map((s) => ({ title: s.title, entries: entries.filter((e) => sectionTitleFor(e.path) === s.title) })).filter(
+    (s) => s.entries.length > 0
+  );
+  return { sections, total: entries.length };
+}
+
+/**
+ * Every section and field path in a blueprint, for anchoring comments. List items are addressed by
+ * their channel type, lifecycle, mapping target or code, matching the paths used by the diff.
+ */
+export function anchorPaths(value: unknown, path = ""): string[] {
+  if (Array.isArray(value)) {
+    const items = value.flatMap((item) => {
+      if (!item || typeof item !== "object") return [];
+      const { type, lifecycle, target, code } = item as { type?: string; lifecycle?: string; target?: string; code?: string };
+      const key = type ?? lifecycle ?? target ?? code;
+      return key ? anchorPaths(item, `${path}[${key}]`) : [];
+    });
+    return [path, ...items];
+  }
+  if (value && typeof value === "object") {
+    const children = Object.entries(value)
+      .filter(([key]) => path || (key !== "version" && key !== "warnings"))
+      .flatMap(([key, child]) => anchorPaths(child, path ? `${path}.${key}` : key));
+    return path ? [path, ...children] : children;
+  }
+  return path ? [path] : [];
+}
@@ -0,0 +1,68 @@
+import { BlueprintSchema, type Blueprint } from "@/lib/blueprints/schema";
+import { getReviewState, summarizeReview, type ReviewSummary } from "@/lib/blueprints/review";
+import { getRevisions, summarizeRevisions, type BlueprintRevisionSummary } from "@/lib/blueprints/revisions";
+import { getBlueprintStore, type CommentThread } from "@/lib/blueprints/store";
+import { upgradeBlueprint } from "@/lib/blueprints/versions";
+import { withCapabilityWarnings } from "@/lib/intake/capabilities";
+import { toValidationIssues, type ValidationIssue } from "@/lib/validation";
+
+export type LoadedBlueprint = {
+  id: string;
+  createdAt: string;
+  upgradedFrom: string;
+  // The upgraded document, returned even when it fails current validation so it can be displayed.
+  document: Record<string, unknown>;
+  // Set only when the upgraded document passes the current schema.
+  blueprint: Blueprint | null;
+  issues: ValidationIssue[];
+  revision: number;
+  revisions: BlueprintRevisionSummary[];
+  review: ReviewSummary;
+  comments: CommentThread[];
+};
+
+function upgradeStored(document: Record<string, unknown>) {
+  const upgraded = upgradeBlueprint(document);
+  if (!upgraded.ok) {
+    throw new Error(`Stored blueprint is unreadable: ${upgraded.issues.map((i) => i.message).join("; ")}`);
+  }
+  return upgraded;
+}
+
+/** Loads a stored blueprint and upgrades it to the current version. Returns null when not found. */
+export async function loadBlueprint(id: string): Promise<LoadedBlueprint | null> {
+  const record = await getBlueprintStore().get(id);
+  if (!record) return null;
+
+  const upgraded = upgradeStored(record.blueprint);
+
+  const parsed = BlueprintSchema.safeParse(upgraded.blueprint);
+  const blueprint = parsed.success ? withCapabilityWarnings(parsed.data) : null;
+  const revisions = summarizeRevisions(record);
+  const revision = revisions[revisions.length - 1].revision;
+  return {
+    id: record.id,
+    createdAt: record.createdAt,
+    upgradedFrom: upgraded.fromVersion,
+    document: blueprint ?? upgraded.blueprint,
+    blueprint,
+    issues: parsed.success ? [] : toValidationIssues(parsed.error),
+    revision,
+    revisions,
+    review: summarizeReview(getReviewState(record), revision),
+    comments: record.comments ?? [],
+  };
+}
+
+export type LoadedRevision = BlueprintRevisionSummary & { document: Record<string, unknown> };
+
+/** Every revision of a blueprint, oldest first, each upgraded to the current version so they can be compared. */
+export async function loadRevisions(id: string): Promise<LoadedRevision[] | null> {
+  const record = await getBlueprintStore().get(id);
+  if (!record) return null;
+
+  return getRevisions(record).map(({ blueprint, ...summary }) => ({
+    ...summary,
+    document: upgradeStored(blueprint).blueprint,
+  }));
+}
@@ -0,0 +1,15 @@
+import type { ReviewRole, ReviewStatus } from "@/lib/blueprints/store";
+
+// Kept apart from review.ts so client components can show them without pulling in the store.
+export const REVIEW_ROLE_LABELS: Record<ReviewRole, string> = {
+  revops: "RevOps",
+  contact_center_ops: "Contact Center Ops",
+  it: "IT",
+};
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  changes_requested: "Changes Requested",
+};
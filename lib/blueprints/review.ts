@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { REVIEW_ROLE_LABELS, REVIEW_STATUS_LABELS } from "@/lib/blueprints/review-labels";
+import { getRevisions } from "@/lib/blueprints/revisions";
+import {
+  getBlueprintStore,
+  withBlueprintLock,
+  type BlueprintRecord,
+  type ReviewAuditEvent,
+  type ReviewRole,
+  type ReviewState,
+  type ReviewStatus,
+} from "@/lib/blueprints/store";
+
+const ReviewRoleSchema = z.enum(["revops", "contact_center_ops", "it"]);
+const Actor = z.string().trim().min(1, "Your name is required").max(100);
+const Comment = z.string().trim().max(1000);
+
+export const ReviewActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("submit"), actor: Actor, comment: Comment.optional() }),
+  z.object({ type: z.literal("sign_off"), actor: Actor, role: ReviewRoleSchema, comment: Comment.optional() }),
+  z.object({
+    type: z.literal("request_changes"),
+    actor: Actor,
+    role: ReviewRoleSchema,
+    comment: Comment.min(1, "Say what needs to change"),
+  }),
+  z.object({ type: z.literal("approve"), actor: Actor, comment: Comment.optional() }),
+  z.object({ type: z.literal("reopen"), actor: Actor, comment: Comment.optional() }),
+]);
+
+export type ReviewAction = z.infer<typeof ReviewActionSchema>;
+
+/** Roles that must sign off before approval, from REVIEW_REQUIRED_ROLES (comma-separated; default all). */
+export function requiredReviewRoles(): ReviewRole[] {
+  const configured = process.env.REVIEW_REQUIRED_ROLES;
+  if (!configured) return ReviewRoleSchema.options;
+
+  return configured.split(",").map((raw) => {
+    const role = ReviewRoleSchema.safeParse(raw.trim());
+    if (!role.success) throw new Error(`Unknown review role in REVIEW_REQUIRED_ROLES: ${raw.trim()}`);
+    return role.data;
+  });
+}
+
+export function getReviewState(record: BlueprintRecord): ReviewState {
+  return record.review ?? { status: "draft", signoffs: [], audit: [] };
+}
+
+/** Required roles without a sign-off on `revision`. */
+export function missingSignoffs(review: ReviewState, revision: number, required = requiredReviewRoles()): ReviewRole[] {
+  return required.filter((role) => !review.signoffs.some((s) => s.role === role && s.revision === revision));
+}
+
+export type ReviewSummary = ReviewState & { requiredRoles: ReviewRole[]; missingRoles: ReviewRole[] };
+
+/** The review state plus what is still needed for approval, as returned by the API. */
+export function summarizeReview(review: ReviewState, revision: number): ReviewSummary {
+  const requiredRoles = requiredReviewRoles();
+  return { ...review, requiredRoles, missingRoles: missingSignoffs(review, revision, requiredRoles) };
+}
+
+const ALLOWED_FROM: Record<ReviewAction["type"], ReviewStatus[]> = {
+  submit: ["draft", "changes_requested"],
+  sign_off: ["in_review"],
+  request_changes: ["in_review"],
+  approve: ["in_review"],
+  reopen: ["approved"],
+};
+
+const NEXT_STATUS: Record<ReviewAction["type"], ReviewStatus | null> = {
+  submit: "in_review",
+  sign_off: null,
+  request_changes: "changes_requested",
+  approve: "approved",
+  reopen: "draft",
+};
+
+const AUDIT_ACTIONS: Record<ReviewAction["type"], ReviewAuditEvent["action"]> = {
+  submit: "submitted",
+  sign_off: "signed_off",
+  request_changes: "changes_requested",
+  approve: "approved",
+  reopen: "reopened",
+};
+
+export type ReviewTransition = { ok: true; review: ReviewState } | { ok: false; error: string };
+
+export function applyReviewAction(review: ReviewState, action: ReviewAction, revision: number, at = new Date()): ReviewTransition {
+  if (!ALLOWED_FROM[action.type].includes(review.status)) {
+    return { ok: false, error: `Cannot ${action.type.replace("_", " ")} a blueprint that is ${REVIEW_STATUS_LABELS[review.status]}` };
+  }
+  if (action.type === "approve") {
+    const missing = missingSignoffs(review, revision);
+    if (missing.length > 0) {
+      return { ok: false, error: `Waiting for sign-off from ${missing.map((r) => REVIEW_ROLE_LABELS[r]).join(", ")}` };
+    }
+  }
+  if (action.type === "sign_off") {
+    // Each required role needs its own reviewer, so one person cannot sign off for all of them.
+    const required = requiredReviewRoles();
+    const reviewer = action.actor.toLowerCase();
+    const other = review.signoffs.find(
+      (s) => s.revision === revision && s.role !== action.role && required.includes(s.role) && s.reviewer.toLowerCase() === reviewer
+    );
+    if (other) {
+      return {
+        ok: false,
+        error: `${action.actor} already signed off as ${REVIEW_ROLE_LABELS[other.role]}; another reviewer must sign off as ${REVIEW_ROLE_LABELS[action.role]}`,
+      };
+    }
+  }
+
+  const role = action.type === "sign_off" || action.type === "request_changes" ? action.role : null;
+  const comment = action.comment || null;
+  const status = NEXT_STATUS[action.type] ?? review.status;
+  const signoffs =
+    action.type === "sign_off"
+      ? [
+          ...review.signoffs.filter((s) => s.role !== action.role),
+          { role: action.role, reviewer: action.actor, revision, comment, at: at.toISOString() },
+        ]
+      : review.signoffs;
+
+  return {
+    ok: true,
+    review: {
+      status,
+      signoffs,
+      audit: [
+        ...review.audit,
+        { at: at.toISOString(), actor: action.actor, action: AUDIT_ACTIONS[action.type], from: review.status, to: status, revision, role, comment },
+      ],
+    },
+  };
+}
+
+/** A new revision invalidates an ongoing review or approval, so the blueprint goes back to draft. */
+export function reviewAfterRevision(review: ReviewState, revision: number, author: string | null, at: Date): ReviewState {
+  if (review.status !== "in_review" && review.status !== "approved") return review;
+  return {
+    ...review,
+    status: "draft",
+    audit: [
+      ...review.audit,
+      { at: at.toISOString(), actor: author, action: "revised", from: review.status, to: "draft", revision, role: null, comment: null },
+    ],
+  };
+}
+
+export type ReviewActionResult =
+  | { ok: true; review: ReviewState; revision: number }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "invalid_transition"; error: string };
+
+export function recordReviewAction(id: string, action: ReviewAction): Promise<ReviewActionResult> {
+  return withBlueprintLock(id, async () => {
+    const store = getBlueprintStore();
+    const record = await store.get(id);
+    if (!record) return { ok: false, reason: "not_found" };
+
+    const revisions = getRevisions(record);
+    const revision = revisions[revisions.length - 1].revision;
+    const result = applyReviewAction(getReviewState(record), action, revision);
+    if (!result.ok) return { ok: false, reason: "invalid_transition", error: result.error };
+
+    await store.put({ ...record, review: result.review });
+    return { ok: true, review: result.review, revision };
+  });
+}
@@ -0,0 +1,67 @@
+import { getReviewState, reviewAfterRevision } from "@/lib/blueprints/review";
+import { getBlueprintStore, withBlueprintLock, type BlueprintRecord, type BlueprintRevision } from "@/lib/blueprints/store";
+
+export type BlueprintRevisionSummary = Omit<BlueprintRevision, "blueprint">;
+
+export function getRevisions(record: BlueprintRecord): BlueprintRevision[] {
+  if (record.revisions && record.revisions.length > 0) return record.revisions;
+  return [{ revision: 1, createdAt: record.createdAt, author: null, note: null, blueprint: record.blueprint }];
+}
+
+export function summarizeRevisions(record: BlueprintRecord): BlueprintRevisionSummary[] {
+  return getRevisions(record).map(({ revision, createdAt, author, note }) => ({ revision, createdAt, author, note }));
+}
+
+export function createInitialRecord(id: string, blueprint: Record<string, unknown>, author: string | null = null): BlueprintRecord {
+  const createdAt = new Date().toISOString();
+  return {
+    id,
+    createdAt,
+    blueprint,
+    revisions: [{ revision: 1, createdAt, author, note: null, blueprint }],
+  };
+}
+
+export type SaveRevisionResult =
+  | { ok: true; revision: BlueprintRevision }
+  | { ok: false; reason: "not_found" }
+  | { ok: false; reason: "conflict"; currentRevision: number };
+
+/**
+ * Appends a revision and makes it the current blueprint. When `baseRevision` is given and is no
+ * longer the latest, nothing is written so a concurrent edit is not silently overwritten.
+ */
+export function saveRevision(
+  id: string,
+  blueprint: Record<string, unknown>,
+  options: { author: string | null; note: string | null; baseRevision?: number }
+): Promise<SaveRevisionResult> {
+  // The conflict check and the write share one critical section, so two edits of the same base cannot both pass.
+  return withBlueprintLock(id, async () => {
+    const store = getBlueprintStore();
+    const record = await store.get(id);
+    if (!record) return { ok: false, reason: "not_found" };
+
+    const revisions = getRevisions(record);
+    const current = revisions[revisions.length - 1].revision;
+    if (options.baseRevision !== undefined && options.baseRevision !== current) {
+      return { ok: false, reason: "conflict", currentRevision: current };
+    }
+
+    const now = new Date();
+    const revision: BlueprintRevision = {
+      revision: current + 1,
+      createdAt: now.toISOString(),
+      author: options.author,
+      note: options.note,
+      blueprint,
+    };
+    await store.put({
+      ...record,
+      blueprint,
+      revisions: [...revisions, revision],
+      review: reviewAfterRevision(getReviewState(record), revision.revision, options.author, now),
+    });
+    return { ok: true, revision };
+  });
+}
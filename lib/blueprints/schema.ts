@@ -0,0 +1,331 @@
+import { z } from "zod";
+import {
+  AGENT_WORKSPACE_ENUM,
+  ASSOCIATION_ENUM,
+  CHANNEL_ENUM,
+  CONTACT_CENTER_ENUM,
+  CONTEXT_PLACEMENT_ENUM,
+  CRM_ACTIVITY_ENUM,
+  CRM_ENUM,
+  DIRECTION_ENUM,
+  ENVIRONMENT_ENUM,
+  EVENT_ACTION_ENUM,
+  LATENCY_ENUM,
+  LIFECYCLE_EVENT_ENUM,
+  LOGGING_ENUM,
+  MATCHING_STRATEGY_ENUM,
+  OWNER_STRATEGY_ENUM,
+  PHONE_COUNTRY_ENUM,
+  PHONE_NORM_ENUM,
+  SENSITIVITY_ENUM,
+  VOLUME_ENUM,
+} from "@/lib/intake/schema";
+import { checkDispositions, DispositionSchema, MAX_DISPOSITIONS } from "@/lib/intake/dispositions";
+import { checkFieldReferences, CrmFieldCatalogSchema, FIELD_REFERENCE_PATHS } from "@/lib/intake/field-catalog";
+import { checkFieldMappings, FieldMappingSchema, MAX_FIELD_MAPPINGS } from "@/lib/intake/field-mapping";
+import { checkRecordingPolicy, RecordingPolicySchema } from "@/lib/intake/recording";
+import { lintTemplate } from "@/lib/intake/subject-template";
+
+const nonEmpty = z.string().trim().min(1);
+
+const SystemsSchema = z.object({
+  crm: CRM_ENUM,
+  otherCrmName: nonEmpty.nullable(),
+  contactCenter: CONTACT_CENTER_ENUM,
+  otherContactCenterName: nonEmpty.nullable(),
+  agentWorkspace: AGENT_WORKSPACE_ENUM,
+  environment: ENVIRONMENT_ENUM,
+});
+
+const CrmActivitySchema = z.object({
+  objectType: CRM_ACTIVITY_ENUM,
+  subjectTemplate: z.string().min(5, "Subject template is required"),
+  associations: z.array(ASSOCIATION_ENUM).min(1, "Select at least one association"),
+});
+
+const MatchingSchema = z.object({
+  strategy: z.array(MATCHING_STRATEGY_ENUM).min(1),
+  // Up to v4 the rule was a bare string with the country baked in.
+  phoneNormalization: z.enum(["us_e164", "as_is", "other"]),
+  externalIdField: nonEmpty.nullable(),
+});
+
+const ContextInjectionSchema = z.object({
+  fields: z.array(nonEmpty).min(1, "Select at least one context field"),
+  customFields: z.array(nonEmpty),
+  placement: CONTEXT_PLACEMENT_ENUM,
+});
+
+const OwnershipSchema = z.object({
+  ownerStrategy: OWNER_STRATEGY_ENUM,
+  fixedOwner: nonEmpty.nullable(),
+  storeInteractionId: z.boolean(),
+  interactionIdField: z.string().trim().nullable(),
+});
+
+const ReliabilitySchema = z.object({
+  expectedVolume: VOLUME_ENUM,
+  idempotencyKey: z.string().trim(),
+  latencyTarget: LATENCY_ENUM,
+});
+
+const SecuritySchema = z.object({
+  dataSensitivity: SENSITIVITY_ENUM,
+  logging: LOGGING_ENUM,
+});
+
+const TriggerEventSchema = z.object({
+  // Platform-qualified event name, e.g. "genesys.interaction.ended".
+  name: nonEmpty,
+  lifecycle: LIFECYCLE_EVENT_ENUM,
+  action: EVENT_ACTION_ENUM,
+});
+
+export type TriggerEvent = z.infer<typeof TriggerEventSchema>;
+
+type RefinableBlueprint = {
+  systems: z.infer<typeof SystemsSchema>;
+  crmActivity: z.infer<typeof CrmActivitySchema>;
+  matching: Pick<z.infer<typeof MatchingSchema>, "strategy" | "externalIdField">;
+  ownership: z.infer<typeof OwnershipSchema>;
+  security: z.infer<typeof SecuritySchema>;
+};
+
+// The server re-checks submitted blueprints, so the cross-field rules from IntakeSchema are
+// repeated here against the normalized paths.
+function refineBlueprint(val: RefinableBlueprint, ctx: z.RefinementCtx) {
+  if (val.systems.crm === "other" && !val.systems.otherCrmName) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["systems", "otherCrmName"],
+      message: "Please specify the CRM name",
+    });
+  }
+
+  if (val.systems.contactCenter === "other" && !val.systems.otherContactCenterName) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["systems", "otherContactCenterName"],
+      message: "Please specify the contact center name",
+    });
+  }
+
+  for (const message of lintTemplate(val.crmActivity.subjectTemplate, val.systems.contactCenter)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["crmActivity", "subjectTemplate"],
+      message,
+    });
+  }
+
+  if (val.matching.strategy.includes("external_id") && !val.matching.externalIdField) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["matching", "externalIdField"],
+      message: "External ID field is required when using external ID matching",
+    });
+  }
+
+  if (val.ownership.ownerStrategy === "fixed_owner" && !val.ownership.fixedOwner) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["ownership", "fixedOwner"],
+      message: "Fixed owner is required when using fixed owner strategy",
+    });
+  }
+
+  if (val.security.dataSensitivity === "regulated" && val.security.logging !== "no_payload_logging") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["security", "logging"],
+      message: "For regulated data, use 'No payload logging' (recommended).",
+    });
+  }
+}
+
+// v1: trigger.interactionType ("voice" | "generic"). Older v1 documents may also use legacy
+// keys (systems.agentDesktop, ownership.callIdField, ...); those are handled by the v1 -> v2 upgrade.
+const BlueprintV1Object = z.object({
+  version: z.literal("v1"),
+  mode: z.literal("feedback_only"),
+  systems: SystemsSchema,
+  trigger: z.object({
+    event: nonEmpty,
+    interactionType: z.enum(["voice", "generic"]),
+    direction: DIRECTION_ENUM,
+  }),
+  crmActivity: CrmActivitySchema,
+  matching: MatchingSchema,
+  contextInjection: ContextInjectionSchema,
+  ownership: OwnershipSchema,
+  reliability: ReliabilitySchema,
+  security: SecuritySchema,
+  warnings: z.array(z.string()),
+});
+
+// v2: canonical keys only; trigger.interactionType renamed to trigger.channel.
+const BlueprintV2Object = BlueprintV1Object.extend({
+  version: z.literal("v2"),
+  trigger: z.object({
+    event: nonEmpty,
+    channel: z.enum(["voice", "generic"]),
+    direction: DIRECTION_ENUM,
+  }),
+});
+
+// v3: trigger.channel replaced by a list of channels, each with its own settings.
+const TriggerChannelSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal(CHANNEL_ENUM.enum.voice) }),
+  z.object({ type: z.literal(CHANNEL_ENUM.enum.chat), attachTranscript: z.boolean() }),
+  z.object({ type: z.literal(CHANNEL_ENUM.enum.sms), attachTranscript: z.boolean() }),
+  z.object({ type: z.literal(CHANNEL_ENUM.enum.email), threadIdField: nonEmpty.nullable() }),
+  z.object({ type: z.literal(CHANNEL_ENUM.enum.messaging), attachTranscript: z.boolean() }),
+]);
+
+export type TriggerChannel = z.infer<typeof TriggerChannelSchema>;
+
+const BlueprintV3Object = BlueprintV2Object.extend({
+  version: z.literal("v3"),
+  trigger: z.object({
+    event: nonEmpty,
+    channels: z
+      .array(TriggerChannelSchema)
+      .min(1, "Select at least one channel")
+      .refine((channels) => new Set(channels.map((c) => c.type)).size === channels.length, "Each channel can only be listed once"),
+    direction: DIRECTION_ENUM,
+  }),
+});
+
+// v4: trigger.event replaced by a list of lifecycle events, each with its own CRM action.
+const BlueprintV4Object = BlueprintV3Object.extend({
+  version: z.literal("v4"),
+  trigger: BlueprintV3Object.shape.trigger.omit({ event: true }).extend({
+    events: z
+      .array(TriggerEventSchema)
+      .min(1, "Select at least one trigger event")
+      .refine((events) => new Set(events.map((e) => e.lifecycle)).size === events.length, "Each event can only be listed once")
+      .refine(
+        (events) => !events.some((e) => e.action === "update_activity") || events.some((e) => e.action === "create_activity"),
+        "'Update activity' needs another event that creates the activity"
+      ),
+  }),
+});
+
+// v5: matching.phoneNormalization becomes a rule object with a default country, extension
+// handling, and a description when the rule is "other".
+const PhoneNormalizationSchema = z
+  .object({
+    rule: PHONE_NORM_ENUM,
+    defaultCountry: PHONE_COUNTRY_ENUM,
+    stripExtension: z.boolean(),
+    otherRule: nonEmpty.nullable(),
+  })
+  .refine((val) => val.rule !== "other" || val.otherRule, {
+    path: ["otherRule"],
+    message: "Describe the phone normalization rule",
+  });
+
+export type PhoneNormalization = z.infer<typeof PhoneNormalizationSchema>;
+
+const BlueprintV5Object = BlueprintV4Object.extend({
+  version: z.literal("v5"),
+  matching: MatchingSchema.extend({ phoneNormalization: PhoneNormalizationSchema }),
+});
+
+// v6: the uploaded CRM field catalog is stored with the blueprint (null when none was uploaded).
+const BlueprintV6Object = BlueprintV5Object.extend({
+  version: z.literal("v6"),
+  crmFieldCatalog: CrmFieldCatalogSchema.nullable(),
+});
+
+// Properties and owners named in the blueprint must exist in its own catalog.
+function refineFieldReferences(
+  val: Pick<z.infer<typeof BlueprintV6Object>, "crmFieldCatalog" | "crmActivity" | "matching" | "contextInjection" | "ownership">,
+  ctx: z.RefinementCtx
+) {
+  if (!val.crmFieldCatalog) return;
+  const errors = checkFieldReferences(val.crmFieldCatalog, {
+    activityObjectType: val.crmActivity.objectType,
+    externalIdField: val.matching.externalIdField,
+    interactionIdField: val.ownership.interactionIdField,
+    customContextFields: val.contextInjection.customFields,
+    fixedOwner: val.ownership.fixedOwner,
+  });
+  for (const error of errors) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [...FIELD_REFERENCE_PATHS[error.field]],
+      message: error.message,
+    });
+  }
+}
+
+// v7: crmActivity.fieldMappings copies contact center attributes onto CRM activity properties.
+const BlueprintV7Object = BlueprintV6Object.extend({
+  version: z.literal("v7"),
+  crmActivity: CrmActivitySchema.extend({ fieldMappings: z.array(FieldMappingSchema).max(MAX_FIELD_MAPPINGS) }),
+});
+
+function refineFieldMappings(val: Pick<z.infer<typeof BlueprintV7Object>, "crmActivity" | "systems" | "crmFieldCatalog">, ctx: z.RefinementCtx) {
+  const errors = checkFieldMappings(val.crmActivity.fieldMappings, {
+    contactCenter: val.systems.contactCenter,
+    activityObjectType: val.crmActivity.objectType,
+    catalog: val.crmFieldCatalog,
+  });
+  for (const error of errors) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["crmActivity", "fieldMappings", error.index, error.key],
+      message: error.message,
+    });
+  }
+}
+
+// v8: dispositions maps each contact center disposition code to a CRM outcome.
+const BlueprintV8Object = BlueprintV7Object.extend({
+  version: z.literal("v8"),
+  dispositions: z.array(DispositionSchema).max(MAX_DISPOSITIONS),
+});
+
+function refineDispositions(val: Pick<z.infer<typeof BlueprintV8Object>, "dispositions" | "crmActivity">, ctx: z.RefinementCtx) {
+  const errors = checkDispositions(val.dispositions, {
+    activityObjectType: val.crmActivity.objectType,
+    associations: val.crmActivity.associations,
+  });
+  for (const error of errors) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["dispositions", error.index, error.key],
+      message: error.message,
+    });
+  }
+}
+
+// v9: security.recording covers recording links, transcripts, retention, consent and redaction.
+const BlueprintV9Object = BlueprintV8Object.extend({
+  version: z.literal("v9"),
+  security: SecuritySchema.extend({ recording: RecordingPolicySchema }),
+});
+
+function refineRecording(val: z.infer<typeof BlueprintV9Object>, ctx: z.RefinementCtx) {
+  const findings = checkRecordingPolicy(val.security.recording, {
+    dataSensitivity: val.security.dataSensitivity,
+    channels: val.trigger.channels.map((c) => c.type),
+    channelTranscripts: val.trigger.channels.some((c) => "attachTranscript" in c && c.attachTranscript),
+    mappedSources: val.crmActivity.fieldMappings.map((m) => m.source),
+  });
+  for (const finding of findings) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["security", "recording", finding.field],
+      message: finding.message,
+    });
+  }
+}
+
+export const BlueprintV9Schema = BlueprintV9Object.superRefine(refineBlueprint).superRefine(refineFieldReferences).superRefine(refineFieldMappings).superRefine(refineDispositions).superRefine(refineRecording);
+
+// Current blueprint shape, as produced by buildNormalizedIntake.
+export const BlueprintSchema = BlueprintV9Schema;
+
+export type Blueprint = z.infer<typeof BlueprintSchema>;
@@ -0,0 +1,167 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export type BlueprintRevision = {
+  revision: number;
+  createdAt: string;
+  author: string | null;
+  note: string | null;
+  blueprint: Record<string, unknown>;
+};
+
+export type ReviewStatus = "draft" | "in_review" | "approved" | "changes_requested";
+
+export type ReviewRole = "revops" | "contact_center_ops" | "it";
+
+export type ReviewSignoff = {
+  role: ReviewRole;
+  reviewer: string;
+  // The revision that was approved; a later revision needs a fresh sign-off.
+  revision: number;
+  comment: string | null;
+  at: string;
+};
+
+export type ReviewAuditEvent = {
+  at: string;
+  actor: string | null;
+  action: "submitted" | "signed_off" | "changes_requested" | "approved" | "reopened" | "revised";
+  from: ReviewStatus;
+  to: ReviewStatus;
+  revision: number;
+  role: ReviewRole | null;
+  comment: string | null;
+};
+
+export type ReviewState = {
+  status: ReviewStatus;
+  signoffs: ReviewSignoff[];
+  // Oldest first.
+  audit: ReviewAuditEvent[];
+};
+
+export type BlueprintComment = {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+};
+
+export type CommentThread = {
+  id: string;
+  // A section key ("matching") or a field path ("matching.externalIdField").
+  anchor: string;
+  // The revision the thread was opened on.
+  revision: number;
+  resolved: boolean;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  // Oldest first; the first comment opens the thread.
+  comments: BlueprintComment[];
+  createdAt: string;
+};
+
+export type BlueprintRecord = {
+  id: string;
+  createdAt: string;
+  // Always the latest revision's document.
+  blueprint: Record<string, unknown>;
+  // Oldest first. Records written before revisions existed have none; see getRevisions.
+  revisions?: BlueprintRevision[];
+  // Missing until the first review action; see getReviewState.
+  review?: ReviewState;
+  comments?: CommentThread[];
+};
+
+export type BlueprintStore = {
+  get(id: string): Promise<BlueprintRecord | null>;
+  put(record: BlueprintRecord): Promise<void>;
+};
+
+// Blueprint ids are UUIDs; anything else never reaches the backing store (and can't escape the store dir).
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function isValidBlueprintId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+export function createMemoryBlueprintStore(): BlueprintStore {
+  const records = new Map<string, BlueprintRecord>();
+
+  return {
+    async get(id) {
+      return records.get(id) ?? null;
+    },
+    async put(record) {
+      records.set(record.id, record);
+    },
+  };
+}
+
+export function createFileBlueprintStore(dir: string): BlueprintStore {
+  const fileFor = (id: string) => path.join(dir, `${id}.json`);
+
+  return {
+    async get(id) {
+      if (!isValidBlueprintId(id)) return null;
+      try {
+        const raw = await fs.readFile(fileFor(id), "utf8");
+        return JSON.parse(raw) as BlueprintRecord;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async put(record) {
+      if (!isValidBlueprintId(record.id)) {
+        throw new Error(`Invalid blueprint id: ${record.id}`);
+      }
+      await fs.mkdir(dir, { recursive: true });
+      // Write-then-rename so a crashed write never leaves a truncated blueprint behind.
+      const tmp = `${fileFor(record.id)}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(record, null, 2), "utf8");
+      await fs.rename(tmp, fileFor(record.id));
+    },
+  };
+}
+
+// Tail of the queued updates per blueprint id. It never rejects, so one failed update does not block the next.
+const locks = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a read-modify-write of one blueprint record after any earlier one for the same id has
+ * finished, so concurrent updates in this process do not overwrite each other.
+ */
+export function withBlueprintLock<T>(id: string, update: () => Promise<T>): Promise<T> {
+  const result = (locks.get(id) ?? Promise.resolve()).then(update);
+  const tail = result.catch(() => undefined);
+  locks.set(id, tail);
+  void tail.then(() => {
+    if (locks.get(id) === tail) locks.delete(id);
+  });
+  return result;
+}
+
+let store: BlueprintStore | null = null;
+
+/**
+ * Store selected by BLUEPRINT_STORE ("file" | "memory", default "file").
+ * The file store writes to BLUEPRINT_STORE_DIR (default ".data/blueprints").
+ */
+export function getBlueprintStore(): BlueprintStore {
+  if (store) return store;
+
+  const kind = process.env.BLUEPRINT_STORE ?? "file";
+  switch (kind) {
+    case "memory":
+      store = createMemoryBlueprintStore();
+      break;
+    case "file":
+      store = createFileBlueprintStore(process.env.BLUEPRINT_STORE_DIR ?? path.join(process.cwd(), ".data", "blueprints"));
+      break;
+    default:
+      throw new Error(`Unknown BLUEPRINT_STORE: ${kind}`);
+  }
+  return store;
+}
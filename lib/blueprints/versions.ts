@@ -0,0 +1,250 @@
+import { BlueprintSchema, type Blueprint } from "@/lib/blueprints/schema";
+import { REDACTION_ENUM } from "@/lib/intake/recording";
+import { LIFECYCLE_EVENT_ENUM } from "@/lib/intake/schema";
+import { toValidationIssues, type ValidationIssue } from "@/lib/validation";
+
+type Doc = Record<string, unknown>;
+
+type BlueprintVersionEntry = {
+  version: string;
+  // Turns a document of this version into the next version in the registry. Works on loose
+  // documents: stored blueprints predate validation and may be partial.
+  upgrade?: (doc: Doc) => Doc;
+};
+
+function isRecord(value: unknown): value is Doc {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Doc {
+  return isRecord(value) ? value : {};
+}
+
+function pickFirst(...values: unknown[]): unknown {
+  for (const v of values) {
+    if (v !== undefined && v !== null && v !== "") return v;
+  }
+  return undefined;
+}
+
+function omit(doc: Doc, keys: string[]): Doc {
+  return Object.fromEntries(Object.entries(doc).filter(([key]) => !keys.includes(key)));
+}
+
+// v1 -> v2: fold legacy aliases into canonical keys and rename trigger.interactionType.
+function upgradeV1ToV2(doc: Doc): Doc {
+  const systems = asRecord(doc.systems);
+  const trigger = asRecord(doc.trigger);
+  const matching = asRecord(doc.matching);
+  const ownership = asRecord(doc.ownership);
+  const strategy = pickFirst(matching.strategy, doc.matchingStrategy);
+
+  return {
+    ...omit(doc, ["crm", "contactCenter", "contactCenterPlatform", "agentWorkspace", "agentDesktop", "interactionIdField", "callIdField", "ownerStrategy", "triggerEvent", "channel", "direction"]),
+    systems: {
+      ...omit(systems, ["contactCenterPlatform", "agentDesktop"]),
+      crm: pickFirst(systems.crm, doc.crm),
+      otherCrmName: systems.otherCrmName ?? null,
+      contactCenter: pickFirst(systems.contactCenter, systems.contactCenterPlatform, doc.contactCenter, doc.contactCenterPlatform),
+      otherContactCenterName: systems.otherContactCenterName ?? null,
+      agentWorkspace: pickFirst(systems.agentWorkspace, systems.agentDesktop, doc.agentWorkspace, doc.agentDesktop),
+    },
+    trigger: {
+      ...omit(trigger, ["interactionType"]),
+      event: pickFirst(trigger.event, doc.triggerEvent),
+      channel: pickFirst(trigger.channel, trigger.interactionType, doc.channel, "voice"),
+      direction: pickFirst(trigger.direction, doc.direction),
+    },
+    matching: {
+      ...omit(matching, ["normalization"]),
+      strategy: typeof strategy === "string" ? [strategy] : strategy,
+      phoneNormalization: pickFirst(matching.phoneNormalization, matching.normalization),
+      externalIdField: matching.externalIdField ?? null,
+    },
+    ownership: {
+      ...omit(ownership, ["callIdField"]),
+      ownerStrategy: pickFirst(ownership.ownerStrategy, doc.ownerStrategy),
+      fixedOwner: ownership.fixedOwner ?? null,
+      interactionIdField: pickFirst(ownership.interactionIdField, ownership.callIdField, doc.interactionIdField, doc.callIdField) ?? null,
+    },
+    warnings: Array.isArray(doc.warnings) ? doc.warnings : [],
+  };
+}
+
+// v2 -> v3: the single trigger.channel becomes a channel list. "generic" meant "not limited to
+// voice", so it expands to every channel with transcripts off and no thread field.
+function upgradeV2ToV3(doc: Doc): Doc {
+  const trigger = asRecord(doc.trigger);
+  const channels =
+    trigger.channel === "generic"
+      ? [
+          { type: "voice" },
+          { type: "chat", attachTranscript: false },
+          { type: "sms", attachTranscript: false },
+          { type: "email", threadIdField: null },
+          { type: "messaging", attachTranscript: false },
+        ]
+      : [{ type: "voice" }];
+
+  return {
+    ...doc,
+    trigger: {
+      ...omit(trigger, ["channel"]),
+      channels,
+    },
+  };
+}
+
+// v3 -> v4: the single trigger.event becomes one lifecycle event that creates the activity.
+// v3 names were always "<platform>.<lifecycle>", so the lifecycle is read back from the suffix.
+function upgradeV3ToV4(doc: Doc): Doc {
+  const trigger = asRecord(doc.trigger);
+  const name = typeof trigger.event === "string" ? trigger.event : "";
+  const lifecycle = LIFECYCLE_EVENT_ENUM.options.find((l) => name.endsWith(`.${l}`)) ?? "interaction.accepted";
+
+  return {
+    ...doc,
+    trigger: {
+      ...omit(trigger, ["event"]),
+      events: [{ name, lifecycle, action: "create_activity" }],
+    },
+  };
+}
+
+// v4 -> v5: the phone normalization string becomes a rule object. "us_e164" was the only
+// country-aware rule, so every migrated blueprint defaults to US.
+function upgradeV4ToV5(doc: Doc): Doc {
+  const matching = asRecord(doc.matching);
+  const legacy = matching.phoneNormalization;
+
+  return {
+    ...doc,
+    matching: {
+      ...matching,
+      phoneNormalization: {
+        rule: legacy === "us_e164" ? "e164" : legacy,
+        defaultCountry: "US",
+        stripExtension: legacy === "us_e164",
+        otherRule: null,
+      },
+    },
+  };
+}
+
+// v5 -> v6: blueprints written before catalog uploads have no field catalog.
+function upgradeV5ToV6(doc: Doc): Doc {
+  return { ...doc, crmFieldCatalog: doc.crmFieldCatalog ?? null };
+}
+
+// v6 -> v7: field mappings start out empty.
+function upgradeV6ToV7(doc: Doc): Doc {
+  const crmActivity = asRecord(doc.crmActivity);
+  return { ...doc, crmActivity: { ...crmActivity, fieldMappings: crmActivity.fieldMappings ?? [] } };
+}
+
+// v7 -> v8: no disposition codes are mapped yet.
+function upgradeV7ToV8(doc: Doc): Doc {
+  return { ...doc, dispositions: doc.dispositions ?? [] };
+}
+
+// v8 -> v9: nothing was attached before, unless a field mapping already copied the recording URL.
+// Recording links need voice, so without it the link stays off with a warning. Regulated blueprints
+// with chat, SMS or messaging transcripts must redact, so they get every category and a warning to
+// narrow it down.
+function upgradeV8ToV9(doc: Doc): Doc {
+  const security = asRecord(doc.security);
+  const mappings = asRecord(doc.crmActivity).fieldMappings;
+  const mapsRecording = Array.isArray(mappings) && mappings.some((m) => asRecord(m).source === "recordingUrl");
+  const channels = asRecord(doc.trigger).channels;
+  const hasVoice = Array.isArray(channels) && channels.some((c) => asRecord(c).type === "voice");
+  const channelTranscripts = Array.isArray(channels) && channels.some((c) => asRecord(c).attachTranscript === true);
+  const attachRecordingLink = mapsRecording && hasVoice;
+  const redactAll = !security.recording && security.dataSensitivity === "regulated" && channelTranscripts;
+  const warnings = Array.isArray(doc.warnings) ? [...doc.warnings] : [];
+  if (!security.recording && mapsRecording && !hasVoice) {
+    warnings.push("A field mapping copies the recording URL, but there is no Voice channel; recording links stay off after the upgrade to v9.");
+  }
+  if (redactAll) {
+    warnings.push("Transcripts are redacted for every category after the upgrade to v9; review the redaction settings.");
+  }
+  return {
+    ...doc,
+    security: {
+      ...security,
+      recording: security.recording ?? {
+        attachRecordingLink,
+        recordingRetention: attachRecordingLink ? "platform_default" : null,
+        attachCallTranscript: false,
+        transcriptRetention: null,
+        consentRegions: [],
+        consentMethod: "none",
+        redaction: redactAll ? [...REDACTION_ENUM.options] : [],
+      },
+    },
+    warnings,
+  };
+}
+
+// Ordered oldest to newest. The last entry is the current version and has no upgrade. Only the
+// result is validated, against BlueprintSchema; older shapes in schema.ts document each version.
+export const BLUEPRINT_VERSIONS: BlueprintVersionEntry[] = [
+  { version: "v1", upgrade: upgradeV1ToV2 },
+  { version: "v2", upgrade: upgradeV2ToV3 },
+  { version: "v3", upgrade: upgradeV3ToV4 },
+  { version: "v4", upgrade: upgradeV4ToV5 },
+  { version: "v5", upgrade: upgradeV5ToV6 },
+  { version: "v6", upgrade: upgradeV6ToV7 },
+  { version: "v7", upgrade: upgradeV7ToV8 },
+  { version: "v8", upgrade: upgradeV8ToV9 },
+  { version: "v9" },
+];
+
+export const CURRENT_BLUEPRINT_VERSION = BLUEPRINT_VERSIONS[BLUEPRINT_VERSIONS.length - 1].version;
+
+export type UpgradeResult =
+  | { ok: true; blueprint: Doc; fromVersion: string }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Runs a stored or submitted document through every upgrade from its declared version to the
+ * current one. Documents without a version predate versioning and are treated as v1.
+ */
+export function upgradeBlueprint(input: unknown): UpgradeResult {
+  if (!isRecord(input)) {
+    return { ok: false, issues: [{ path: [], field: "", code: "invalid_type", message: "Blueprint must be a JSON object" }] };
+  }
+
+  const fromVersion = typeof input.version === "string" ? input.version : "v1";
+  const start = BLUEPRINT_VERSIONS.findIndex((entry) => entry.version === fromVersion);
+  if (start === -1) {
+    return {
+      ok: false,
+      issues: [{ path: ["version"], field: "version", code: "custom", message: `Unsupported blueprint version: ${fromVersion}` }],
+    };
+  }
+
+  let doc = input;
+  for (let i = start; i < BLUEPRINT_VERSIONS.length - 1; i++) {
+    const { upgrade } = BLUEPRINT_VERSIONS[i];
+    if (upgrade) doc = upgrade(doc);
+    doc = { ...doc, version: BLUEPRINT_VERSIONS[i + 1].version };
+  }
+
+  return { ok: true, blueprint: doc, fromVersion };
+}
+
+export type ParseBlueprintResult =
+  | { ok: true; blueprint: Blueprint; fromVersion: string }
+  | { ok: false; issues: ValidationIssue[] };
+
+/** Upgrades to the current version, then validates against the current schema. */
+export function parseBlueprint(input: unknown): ParseBlueprintResult {
+  const upgraded = upgradeBlueprint(input);
+  if (!upgraded.ok) return upgraded;
+
+  const parsed = BlueprintSchema.safeParse(upgraded.blueprint);
+  if (!parsed.success) {
+    return { ok: false, issues: toValidationIssues(parsed.error) };
+  }
+  return { ok: true, blueprint: parsed.data, fromVersion: upgraded.fromVersion };
+}
@@ -0,0 +1,139 @@
+import { createHash, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export type IdempotencyRecord = {
+  key: string;
+  // Hash of the request body, so a key reused for a different request is rejected instead of replayed.
+  fingerprint: string;
+  status: number;
+  body: unknown;
+  createdAt: string;
+};
+
+export type IdempotencyStore = {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  put(record: IdempotencyRecord): Promise<void>;
+};
+
+export const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+export function fingerprint(body: string): string {
+  return createHash("sha256").update(body).digest("hex");
+}
+
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, IdempotencyRecord>();
+
+  return {
+    async get(key) {
+      return records.get(key) ?? null;
+    },
+    async put(record) {
+      records.set(record.key, record);
+    },
+  };
+}
+
+export function createFileIdempotencyStore(dir: string): IdempotencyStore {
+  // Keys are client-supplied, so they are hashed rather than used as file names.
+  const fileFor = (key: string) => path.join(dir, `${fingerprint(key)}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(key), "utf8")) as IdempotencyRecord;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async put(record) {
+      await fs.mkdir(dir, { recursive: true });
+      const tmp = `${fileFor(record.key)}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(record), "utf8");
+      await fs.rename(tmp, fileFor(record.key));
+    },
+  };
+}
+
+let store: IdempotencyStore | null = null;
+
+/** Follows BLUEPRINT_STORE; files go to IDEMPOTENCY_DIR (default ".data/idempotency"). */
+export function getIdempotencyStore(): IdempotencyStore {
+  if (store) return store;
+
+  const kind = process.env.BLUEPRINT_STORE ?? "file";
+  switch (kind) {
+    case "memory":
+      store = createMemoryIdempotencyStore();
+      break;
+    case "file":
+      store = createFileIdempotencyStore(process.env.IDEMPOTENCY_DIR ?? path.join(process.cwd(), ".data", "idempotency"));
+      break;
+    default:
+      throw new Error(`Unknown BLUEPRINT_STORE: ${kind}`);
+  }
+  return store;
+}
+
+export type IdempotentResult =
+  | { kind: "fresh"; status: number; body: unknown }
+  | { kind: "replayed"; status: number; body: unknown }
+  | { kind: "mismatch" };
+
+// Requests still running in this process, so a double-click waits for the first instead of racing it.
+const inFlight = new Map<string, { fingerprint: string; result: Promise<IdempotentResult> }>();
+
+/**
+ * Runs `handler` at most once per key within the window and replays its response for repeats.
+ * Only 2xx responses are remembered; a failed request can be retried with the same key.
+ */
+export async function runIdempotent(
+  key: string,
+  requestBody: string,
+  handler: () => Promise<{ status: number; body: unknown }>
+): Promise<IdempotentResult> {
+  const print = fingerprint(requestBody);
+
+  const running = inFlight.get(key);
+  if (running) {
+    if (running.fingerprint !== print) return { kind: "mismatch" };
+    const first = await running.result;
+    return first.kind === "mismatch" ? first : { kind: "replayed", status: first.status, body: first.body };
+  }
+
+  // Registered before the first await so concurrent repeats find it.
+  const result = (async (): Promise<IdempotentResult> => {
+    const existing = await getIdempotencyStore().get(key);
+    if (existing && Date.now() - Date.parse(existing.createdAt) < IDEMPOTENCY_WINDOW_MS) {
+      if (existing.fingerprint !== print) return { kind: "mismatch" };
+      return { kind: "replayed", status: existing.status, body: existing.body };
+    }
+
+    const response = await handler();
+    if (response.status >= 200 && response.status < 300) {
+      await getIdempotencyStore().put({
+        key,
+        fingerprint: print,
+        status: response.status,
+        body: response.body,
+        createdAt: new Date().toISOString(),
+      });
+    }
+    return { kind: "fresh", ...response };
+  })();
+
+  inFlight.set(key, { fingerprint: print, result });
+  try {
+    return await result;
+  } finally {
+    inFlight.delete(key);
+  }
+}
@@ -0,0 +1,331 @@
+import type { z } from "zod";
+import type { Blueprint } from "@/lib/blueprints/schema";
+import type {
+  AGENT_WORKSPACE_ENUM,
+  CHANNEL_ENUM,
+  CONTACT_CENTER_ENUM,
+  CONTEXT_PLACEMENT_ENUM,
+  CRM_ACTIVITY_ENUM,
+  CRM_ENUM,
+  LATENCY_ENUM,
+  LIFECYCLE_EVENT_ENUM,
+  VOLUME_ENUM,
+} from "@/lib/intake/schema";
+import type { ValidationIssue } from "@/lib/validation";
+
+type Crm = Exclude<z.infer<typeof CRM_ENUM>, "other">;
+type ContactCenter = Exclude<z.infer<typeof CONTACT_CENTER_ENUM>, "other">;
+type ContextPlacement = z.infer<typeof CONTEXT_PLACEMENT_ENUM>;
+type LifecycleEvent = z.infer<typeof LIFECYCLE_EVENT_ENUM>;
+
+export type RateLimit = {
+  perSecond: number | null;
+  perDay: number | null;
+  note: string;
+};
+
+export type CrmCapabilities = {
+  label: string;
+  activityObjectTypes: Array<z.infer<typeof CRM_ACTIVITY_ENUM>>;
+  // Where a contact center panel embedded in the CRM can show context.
+  embeddedPanelSurfaces: ContextPlacement[];
+  rateLimit: RateLimit;
+};
+
+export type ContactCenterCapabilities = {
+  label: string;
+  events: LifecycleEvent[];
+  channels: Array<z.infer<typeof CHANNEL_ENUM>>;
+  delivery: { kind: "webhook" } | { kind: "polling"; intervalSeconds: number };
+  // Extension points of the vendor's own agent desktop; empty when it cannot host custom UI.
+  nativeDesktopSurfaces: ContextPlacement[];
+  // CRMs the vendor ships a packaged embedded panel for.
+  crmPanels: Crm[];
+  rateLimit: RateLimit;
+};
+
+// Defaults for the standard editions and packaged integrations. Keep in step with vendor docs;
+// customers on other editions can have different limits.
+export const CRM_CAPABILITIES: Record<Crm, CrmCapabilities> = {
+  hubspot: {
+    label: "HubSpot",
+    activityObjectTypes: ["engagement", "task", "note"],
+    embeddedPanelSurfaces: ["sidebar"],
+    rateLimit: { perSecond: 10, perDay: 250_000, note: "100 requests per 10 seconds per private app" },
+  },
+  salesforce: {
+    label: "Salesforce",
+    // "engagement" is logged as a Task with the Call subtype.
+    activityObjectTypes: ["engagement", "task", "note"],
+    embeddedPanelSurfaces: ["sidebar", "interaction_tab"],
+    rateLimit: { perSecond: null, perDay: 100_000, note: "Enterprise edition daily API request allocation" },
+  },
+};
+
+export const CONTACT_CENTER_CAPABILITIES: Record<ContactCenter, ContactCenterCapabilities> = {
+  ringcentral: {
+    label: "RingCentral",
+    events: ["interaction.accepted", "interaction.ended", "interaction.missed", "interaction.abandoned", "voicemail.left", "interaction.transferred"],
+    channels: ["voice", "sms", "chat", "messaging"],
+    delivery: { kind: "webhook" },
+    nativeDesktopSurfaces: [],
+    crmPanels: ["hubspot", "salesforce"],
+    rateLimit: { perSecond: null, perDay: null, note: "40 requests per minute for call log and session APIs" },
+  },
+  five9: {
+    label: "Five9",
+    events: [
+      "interaction.accepted",
+      "interaction.ended",
+      "interaction.wrap_up",
+      "interaction.missed",
+      "interaction.abandoned",
+      "voicemail.left",
+      "interaction.transferred",
+    ],
+    channels: ["voice", "chat", "sms", "email", "messaging"],
+    delivery: { kind: "polling", intervalSeconds: 10 },
+    nativeDesktopSurfaces: ["interaction_tab"],
+    crmPanels: ["salesforce"],
+    rateLimit: { perSecond: null, perDay: null, note: "Statistics API sessions are limited per domain" },
+  },
+  genesys: {
+    label: "Genesys Cloud",
+    events: [
+      "interaction.accepted",
+      "interaction.ended",
+      "interaction.wrap_up",
+      "interaction.missed",
+      "interaction.abandoned",
+      "voicemail.left",
+      "interaction.transferred",
+    ],
+    channels: ["voice", "chat", "sms", "email", "messaging"],
+    delivery: { kind: "webhook" },
+    nativeDesktopSurfaces: ["interaction_tab"],
+    crmPanels: ["salesforce"],
+    rateLimit: { perSecond: 5, perDay: null, note: "300 requests per minute per OAuth client" },
+  },
+  nice: {
+    label: "NICE CXone",
+    events: [
+      "interaction.accepted",
+      "interaction.ended",
+      "interaction.wrap_up",
+      "interaction.missed",
+      "interaction.abandoned",
+      "voicemail.left",
+      "interaction.transferred",
+    ],
+    channels: ["voice", "chat", "sms", "email", "messaging"],
+    delivery: { kind: "webhook" },
+    nativeDesktopSurfaces: ["interaction_tab"],
+    crmPanels: ["salesforce", "hubspot"],
+    rateLimit: { perSecond: null, perDay: null, note: "Limits are set per tenant" },
+  },
+};
+
+export function getCrmCapabilities(crm: string): CrmCapabilities | null {
+  return Object.hasOwn(CRM_CAPABILITIES, crm) ? CRM_CAPABILITIES[crm as Crm] : null;
+}
+
+export function getContactCenterCapabilities(contactCenter: string): ContactCenterCapabilities | null {
+  return Object.hasOwn(CONTACT_CENTER_CAPABILITIES, contactCenter) ? CONTACT_CENTER_CAPABILITIES[contactCenter as ContactCenter] : null;
+}
+
+export type CapabilityInput = {
+  crm: string;
+  contactCenter: string;
+  agentWorkspace: z.infer<typeof AGENT_WORKSPACE_ENUM>;
+  channels: Array<z.infer<typeof CHANNEL_ENUM>>;
+  events: LifecycleEvent[];
+  activityObjectType: z.infer<typeof CRM_ACTIVITY_ENUM>;
+  contextPlacement: ContextPlacement;
+  expectedVolume: z.infer<typeof VOLUME_ENUM>;
+  latencyTarget: z.infer<typeof LATENCY_ENUM>;
+};
+
+// Intake fields a finding can point at, with the matching blueprint path.
+export const CAPABILITY_FIELD_PATHS = {
+  crm: ["systems", "crm"],
+  contactCenter: ["systems", "contactCenter"],
+  agentWorkspace: ["systems", "agentWorkspace"],
+  channels: ["trigger", "channels"],
+  triggerEvents: ["trigger", "events"],
+  crmActivityObjectType: ["crmActivity", "objectType"],
+  contextPlacement: ["contextInjection", "placement"],
+  expectedVolume: ["reliability", "expectedVolume"],
+  latencyTarget: ["reliability", "latencyTarget"],
+} as const;
+
+export type CapabilityFinding = {
+  // Errors block submission; warnings are added to the blueprint.
+  severity: "error" | "warning";
+  field: keyof typeof CAPABILITY_FIELD_PATHS;
+  message: string;
+};
+
+// Highest interactions/day for each volume band; the open-ended band is checked at its floor.
+const DAILY_INTERACTIONS: Record<CapabilityInput["expectedVolume"], number> = {
+  lt_100: 100,
+  "100_1000": 1000,
+  "1000_10000": 10_000,
+  gt_10000: 10_000,
+};
+
+export const PLACEMENT_LABELS: Record<ContextPlacement, string> = {
+  interaction_tab: "an interaction tab",
+  sidebar: "a sidebar panel",
+  unknown: "an unknown placement",
+};
+
+function listLabels(values: string[]): string {
+  return values.join(", ");
+}
+
+/** Checks a combination of systems and options against the capability catalog. */
+export function checkCapabilities(input: CapabilityInput): CapabilityFinding[] {
+  const findings: CapabilityFinding[] = [];
+  const crm = getCrmCapabilities(input.crm);
+  const cc = getContactCenterCapabilities(input.contactCenter);
+
+  if (!crm) {
+    findings.push({
+      severity: "warning",
+      field: "crm",
+      message: "CRM is not in the capability catalog — confirm activity types, embedding and API limits with the vendor.",
+    });
+  }
+  if (!cc) {
+    findings.push({
+      severity: "warning",
+      field: "contactCenter",
+      message: "Contact center is not in the capability catalog — confirm events, channels and event delivery with the vendor.",
+    });
+  }
+
+  if (crm && !crm.activityObjectTypes.includes(input.activityObjectType)) {
+    findings.push({
+      severity: "error",
+      field: "crmActivityObjectType",
+      message: `${crm.label} has no "${input.activityObjectType}" activity; use one of: ${listLabels(crm.activityObjectTypes)}`,
+    });
+  }
+
+  if (cc) {
+    const channels = input.channels.filter((c) => !cc.channels.includes(c));
+    if (channels.length > 0) {
+      findings.push({
+        severity: "error",
+        field: "channels",
+        message: `${cc.label} does not support ${listLabels(channels)} interactions`,
+      });
+    }
+
+    const events = input.events.filter((e) => !cc.events.includes(e));
+    if (events.length > 0) {
+      findings.push({
+        severity: "error",
+        field: "triggerEvents",
+        message: `${cc.label} does not emit ${listLabels(events)}`,
+      });
+    }
+
+    if (cc.delivery.kind === "polling") {
+      const delay = `${cc.label} events are polled every ${cc.delivery.intervalSeconds}s`;
+      findings.push({
+        severity: "warning",
+        field: "latencyTarget",
+        message:
+          input.latencyTarget === "best_effort"
+            ? `${delay} — activities appear with that delay.`
+            : `${delay} — the latency target cannot be met without a push integration.`,
+      });
+    }
+  }
+
+  if (input.contextPlacement !== "unknown") {
+    let surfaces: ContextPlacement[] | null = null;
+    let host = "";
+    if (input.agentWorkspace === "native_ccp_desktop" && cc) {
+      surfaces = cc.nativeDesktopSurfaces;
+      host = `The ${cc.label} desktop`;
+    } else if (input.agentWorkspace === "embedded_crm_panel" && crm) {
+      surfaces = crm.embeddedPanelSurfaces;
+      host = `An embedded ${crm.label} panel`;
+    }
+
+    if (surfaces && !surfaces.includes(input.contextPlacement)) {
+      findings.push({
+        severity: "error",
+        field: "contextPlacement",
+        message:
+          surfaces.length === 0
+            ? `${host} has no extension points for context; use an embedded CRM panel or a custom workspace`
+            : `${host} cannot show context in ${PLACEMENT_LABELS[input.contextPlacement]}; use ${listLabels(
+                surfaces.map((s) => PLACEMENT_LABELS[s])
+              )}`,
+      });
+    }
+  }
+
+  if (input.agentWorkspace === "embedded_crm_panel" && crm && cc && !cc.crmPanels.includes(input.crm as Crm)) {
+    findings.push({
+      severity: "warning",
+      field: "agentWorkspace",
+      message: `${cc.label} has no packaged ${crm.label} panel — embedding it needs a custom build.`,
+    });
+  }
+
+  // One lookup to match the record, then one write per trigger event.
+  const perDay = crm?.rateLimit.perDay;
+  if (perDay) {
+    const calls = DAILY_INTERACTIONS[input.expectedVolume] * (1 + input.events.length);
+    if (input.expectedVolume === "gt_10000" || calls > perDay / 2) {
+      findings.push({
+        severity: "warning",
+        field: "expectedVolume",
+        message: `${input.expectedVolume === "gt_10000" ? "At least" : "Up to"} ${calls.toLocaleString("en-US")} ${crm.label} API calls/day expected — check against the ${perDay.toLocaleString(
+          "en-US"
+        )}/day limit (${crm.rateLimit.note}).`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+export function capabilityInputFromBlueprint(blueprint: Blueprint): CapabilityInput {
+  return {
+    crm: blueprint.systems.crm,
+    contactCenter: blueprint.systems.contactCenter,
+    agentWorkspace: blueprint.systems.agentWorkspace,
+    channels: blueprint.trigger.channels.map((c) => c.type),
+    events: blueprint.trigger.events.map((e) => e.lifecycle),
+    activityObjectType: blueprint.crmActivity.objectType,
+    contextPlacement: blueprint.contextInjection.placement,
+    expectedVolume: blueprint.reliability.expectedVolume,
+    latencyTarget: blueprint.reliability.latencyTarget,
+  };
+}
+
+/** Blocking findings for a submitted blueprint, in the shape of schema validation issues. */
+export function capabilityIssues(blueprint: Blueprint): ValidationIssue[] {
+  return checkCapabilities(capabilityInputFromBlueprint(blueprint))
+    .filter((f) => f.severity === "error")
+    .map((f) => {
+      const path = [...CAPABILITY_FIELD_PATHS[f.field]];
+      return { path, field: path.join("."), code: "unsupported_capability", message: f.message };
+    });
+}
+
+/**
+ * Adds the blocking findings to the blueprint's warnings. Stored blueprints can predate the catalog
+ * entries they break, so loads and edits report them instead of rejecting the blueprint.
+ */
+export function withCapabilityWarnings(blueprint: Blueprint): Blueprint {
+  const messages = capabilityIssues(blueprint)
+    .map((issue) => issue.message)
+    .filter((message) => !blueprint.warnings.includes(message));
+  return messages.length === 0 ? blueprint : { ...blueprint, warnings: [...blueprint.warnings, ...messages] };
+}
@@ -0,0 +1,70 @@
+import type { Blueprint } from "@/lib/blueprints/schema";
+import type { IntakeForm } from "@/lib/intake/schema";
+
+/**
+ * Inverse of buildNormalizedIntake: turns a current-version blueprint back into wizard values so it
+ * can be edited. Settings for channels the blueprint does not use fall back to the wizard defaults.
+ */
+export function blueprintToIntakeForm(blueprint: Blueprint): IntakeForm {
+  const { systems, trigger, crmActivity, matching, contextInjection, ownership, reliability, security } = blueprint;
+  const channel = <T extends Blueprint["trigger"]["channels"][number]["type"]>(type: T) =>
+    trigger.channels.find((c): c is Extract<Blueprint["trigger"]["channels"][number], { type: T }> => c.type === type);
+
+  return {
+    mode: blueprint.mode,
+
+    crm: systems.crm,
+    otherCrmName: systems.otherCrmName ?? "",
+    contactCenter: systems.contactCenter,
+    otherContactCenterName: systems.otherContactCenterName ?? "",
+    agentWorkspace: systems.agentWorkspace,
+    environment: systems.environment,
+    crmFieldCatalog: blueprint.crmFieldCatalog,
+
+    direction: trigger.direction,
+    channels: trigger.channels.map((c) => c.type),
+    chatAttachTranscript: channel("chat")?.attachTranscript ?? true,
+    smsAttachTranscript: channel("sms")?.attachTranscript ?? false,
+    messagingAttachTranscript: channel("messaging")?.attachTranscript ?? true,
+    emailThreadIdField: channel("email")?.threadIdField ?? "",
+    triggerEvents: trigger.events.map((e) => ({ event: e.lifecycle, action: e.action })),
+
+    crmActivityObjectType: crmActivity.objectType,
+    subjectTemplate: crmActivity.subjectTemplate,
+    associations: crmActivity.associations,
+    fieldMappings: crmActivity.fieldMappings,
+
+    dispositions: blueprint.dispositions.map((d) => ({ ...d, label: d.label ?? "" })),
+
+    matchingStrategy: matching.strategy,
+    phoneNormalization: matching.phoneNormalization.rule,
+    phoneDefaultCountry: matching.phoneNormalization.defaultCountry,
+    phoneStripExtension: matching.phoneNormalization.stripExtension,
+    phoneOtherRule: matching.phoneNormalization.otherRule ?? "",
+    externalIdField: matching.externalIdField ?? "",
+
+    contextFields: contextInjection.fields,
+    customContextFields: contextInjection.customFields.join(", "),
+    contextPlacement: contextInjection.placement,
+
+    ownerStrategy: ownership.ownerStrategy,
+    fixedOwner: ownership.fixedOwner ?? "",
+    storeCallId: ownership.storeInteractionId,
+    callIdField: ownership.interactionIdField ?? "interaction_id",
+
+    expectedVolume: reliability.expectedVolume,
+    idempotencyKey: reliability.idempotencyKey,
+    latencyTarget: reliability.latencyTarget,
+
+    dataSensitivity: security.dataSensitivity,
+    logging: security.logging,
+
+    attachRecordingLink: security.recording.attachRecordingLink,
+    recordingRetention: security.recording.recordingRetention ?? "90_days",
+    attachCallTranscript: security.recording.attachCallTranscript,
+    transcriptRetention: security.recording.transcriptRetention ?? "90_days",
+    consentRegions: security.recording.consentRegions,
+    consentMethod: security.recording.consentMethod,
+    redaction: security.recording.redaction,
+  };
+}
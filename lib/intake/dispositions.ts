@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+export const MAX_DISPOSITIONS = 200;
+
+export const DispositionOutcomeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("activity_status"), status: z.string().trim().min(1, "Enter the activity status") }),
+  z.object({
+    type: z.literal("follow_up_task"),
+    subject: z.string().trim().min(1, "Enter the task subject"),
+    dueInDays: z.number().int().min(0).max(90),
+  }),
+  z.object({ type: z.literal("deal_stage"), stage: z.string().trim().min(1, "Enter the deal stage") }),
+  z.object({ type: z.literal("none") }),
+]);
+
+export type DispositionOutcome = z.infer<typeof DispositionOutcomeSchema>;
+
+// Where each platform reports the code; the shared "disposition" attribute elsewhere.
+const DISPOSITION_ATTRIBUTES: Record<string, string> = {
+  ringcentral: "callResult",
+  genesys: "wrapUpCode",
+};
+
+export function dispositionAttribute(contactCenter: string): string {
+  return Object.hasOwn(DISPOSITION_ATTRIBUTES, contactCenter) ? DISPOSITION_ATTRIBUTES[contactCenter] : "disposition";
+}
+
+const dispositionCode = z.string().trim().min(1, "Enter the disposition code").max(64);
+
+// Wizard rows: the label may be blank and the outcome stays null until the code is mapped.
+export const DispositionFormSchema = z.object({
+  code: dispositionCode,
+  label: z.string().trim(),
+  outcome: DispositionOutcomeSchema.nullable(),
+});
+
+export const DispositionSchema = z.object({
+  code: dispositionCode,
+  label: z.string().trim().min(1).nullable(),
+  outcome: DispositionOutcomeSchema,
+});
+
+export type DispositionForm = z.infer<typeof DispositionFormSchema>;
+export type Disposition = z.infer<typeof DispositionSchema>;
+
+export type DispositionError = { index: number; key: "code" | "outcome"; message: string };
+
+/**
+ * Every code needs an outcome and may only be listed once. Notes have no status, and deal stage
+ * outcomes need the activity to be associated with a deal.
+ */
+export function checkDispositions(
+  dispositions: Array<{ code: string; outcome: DispositionOutcome | null }>,
+  context: { activityObjectType: string; associations: string[] }
+): DispositionError[] {
+  const errors: DispositionError[] = [];
+  const codes = new Set<string>();
+
+  dispositions.forEach((disposition, index) => {
+    const code = disposition.code.toLowerCase();
+    if (codes.has(code)) {
+      errors.push({ index, key: "code", message: `${disposition.code} is already listed` });
+    }
+    codes.add(code);
+
+    const { outcome } = disposition;
+    if (!outcome) {
+      errors.push({ index, key: "outcome", message: `Choose an outcome for ${disposition.code || "this code"}` });
+    } else if (outcome.type === "activity_status" && context.activityObjectType === "note") {
+      errors.push({ index, key: "outcome", message: "Notes have no status; pick another outcome or change the activity type" });
+    } else if (outcome.type === "deal_stage" && !context.associations.includes("deal")) {
+      errors.push({ index, key: "outcome", message: "Deal stage outcomes need the Deal association (CRM Activity step)" });
+    }
+  });
+
+  return errors;
+}
+
+export type ParsedDispositionCodes = { ok: true; codes: Array<{ code: string; label: string }> } | { ok: false; error: string };
+
+/**
+ * Reads disposition codes exported from the contact center: one per line as "code" or
+ * "code,label" (tabs and semicolons also work). A "code" header row is skipped.
+ */
+export function parseDispositionCodes(text: string): ParsedDispositionCodes {
+  const codes: Array<{ code: string; label: string }> = [];
+  const seen = new Set<string>();
+
+  for (const line of text.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const [rawCode = "", ...rest] = line.split(/[,;\t]/);
+    const code = rawCode.trim().replace(/^"(.*)"$/, "$1");
+    if (!code || (codes.length === 0 && code.toLowerCase() === "code")) continue;
+    if (code.length > 64) return { ok: false, error: `Code "${code.slice(0, 20)}…" is longer than 64 characters` };
+    if (seen.has(code.toLowerCase())) continue;
+    seen.add(code.toLowerCase());
+    codes.push({ code, label: rest.join(",").trim().replace(/^"(.*)"$/, "$1") });
+  }
+
+  if (codes.length === 0) return { ok: false, error: "No disposition codes found" };
+  if (codes.length > MAX_DISPOSITIONS) return { ok: false, error: `Import at most ${MAX_DISPOSITIONS} codes` };
+  return { ok: true, codes };
+}
+
+/** Adds imported codes to the list. Codes already present keep their outcome and gain a label if they had none. */
+export function mergeDispositionCodes(existing: DispositionForm[], imported: Array<{ code: string; label: string }>): DispositionForm[] {
+  const merged = existing.map((d) => {
+    const match = imported.find((i) => i.code.toLowerCase() === d.code.toLowerCase());
+    return match && !d.label ? { ...d, label: match.label } : d;
+  });
+  for (const item of imported) {
+    if (!merged.some((d) => d.code.toLowerCase() === item.code.toLowerCase())) {
+      merged.push({ code: item.code, label: item.label, outcome: null });
+    }
+  }
+  return merged;
+}
+
+export function describeOutcome(outcome: DispositionOutcome): string {
+  switch (outcome.type) {
+    case "activity_status":
+      return `Set activity status to ${outcome.status}`;
+    case "follow_up_task":
+      return `Create task "${outcome.subject}" due ${outcome.dueInDays === 0 ? "the same day" : `in ${outcome.dueInDays} day${outcome.dueInDays === 1 ? "" : "s"}`}`;
+    case "deal_stage":
+      return `Move the deal to ${outcome.stage}`;
+    case "none":
+      return "No change";
+  }
+}
@@ -0,0 +1,94 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { isValidBlueprintId } from "@/lib/blueprints/store";
+
+// Wizard values are small apart from an uploaded CRM field catalog; anything bigger is not a draft.
+export const MAX_DRAFT_BYTES = 1_000_000;
+
+export const DraftInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  step: z.number().int().min(0).max(20),
+  values: z.record(z.string(), z.unknown()),
+});
+
+export type DraftInput = z.infer<typeof DraftInputSchema>;
+
+/** A wizard draft saved for a resume link. Anyone with the id can open it. */
+export type ServerDraft = DraftInput & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type DraftStore = {
+  get(id: string): Promise<ServerDraft | null>;
+  put(draft: ServerDraft): Promise<void>;
+  delete(id: string): Promise<void>;
+};
+
+export function createMemoryDraftStore(): DraftStore {
+  const drafts = new Map<string, ServerDraft>();
+
+  return {
+    async get(id) {
+      return drafts.get(id) ?? null;
+    },
+    async put(draft) {
+      drafts.set(draft.id, draft);
+    },
+    async delete(id) {
+      drafts.delete(id);
+    },
+  };
+}
+
+export function createFileDraftStore(dir: string): DraftStore {
+  const fileFor = (id: string) => path.join(dir, `${id}.json`);
+
+  return {
+    async get(id) {
+      if (!isValidBlueprintId(id)) return null;
+      try {
+        return JSON.parse(await fs.readFile(fileFor(id), "utf8")) as ServerDraft;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async put(draft) {
+      if (!isValidBlueprintId(draft.id)) {
+        throw new Error(`Invalid draft id: ${draft.id}`);
+      }
+      await fs.mkdir(dir, { recursive: true });
+      const tmp = `${fileFor(draft.id)}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(draft, null, 2), "utf8");
+      await fs.rename(tmp, fileFor(draft.id));
+    },
+    async delete(id) {
+      if (!isValidBlueprintId(id)) return;
+      await fs.rm(fileFor(id), { force: true });
+    },
+  };
+}
+
+let store: DraftStore | null = null;
+
+/** Follows BLUEPRINT_STORE; files go to INTAKE_DRAFT_DIR (default ".data/drafts"). */
+export function getDraftStore(): DraftStore {
+  if (store) return store;
+
+  const kind = process.env.BLUEPRINT_STORE ?? "file";
+  switch (kind) {
+    case "memory":
+      store = createMemoryDraftStore();
+      break;
+    case "file":
+      store = createFileDraftStore(process.env.INTAKE_DRAFT_DIR ?? path.join(process.cwd(), ".data", "drafts"));
+      break;
+    default:
+      throw new Error(`Unknown BLUEPRINT_STORE: ${kind}`);
+  }
+  return store;
+}
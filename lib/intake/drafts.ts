@@ -0,0 +1,63 @@
+// Browser-only: wizard drafts kept in localStorage so a refresh or closed tab loses nothing.
+
+export type IntakeDraft = {
+  id: string;
+  name: string;
+  step: number;
+  // Raw form values; they may be incomplete or invalid until the wizard is finished.
+  values: Record<string, unknown>;
+  updatedAt: string;
+  // Set once a resume link has been created; autosave then keeps the server copy in sync.
+  serverId: string | null;
+};
+
+const STORAGE_KEY = "micro_si_drafts_v1";
+const EMPTY: IntakeDraft[] = [];
+
+const listeners = new Set<() => void>();
+let cache: { raw: string | null; drafts: IntakeDraft[] } = { raw: null, drafts: EMPTY };
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+/** For useSyncExternalStore; also follows changes made in other tabs. */
+export function subscribeDrafts(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+/** Most recently updated first. Returns the same array until storage changes. */
+export function getDraftsSnapshot(): IntakeDraft[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === cache.raw) return cache.drafts;
+
+  let drafts: IntakeDraft[] = EMPTY;
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) drafts = (parsed as IntakeDraft[]).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    // A corrupt entry is treated as no drafts rather than breaking the wizard.
+  }
+  cache = { raw, drafts };
+  return drafts;
+}
+
+export function getServerDraftsSnapshot(): IntakeDraft[] {
+  return EMPTY;
+}
+
+export function saveDraft(draft: IntakeDraft): void {
+  const others = getDraftsSnapshot().filter((d) => d.id !== draft.id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([draft, ...others]));
+  notify();
+}
+
+export function deleteDraft(id: string): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(getDraftsSnapshot().filter((d) => d.id !== id)));
+  notify();
+}
@@ -0,0 +1,311 @@
+import { z } from "zod";
+
+// Large orgs have thousands of custom properties; beyond this the export is probably not metadata.
+export const MAX_CATALOG_BYTES = 500_000;
+export const MAX_CATALOG_PROPERTIES = 5000;
+
+export const CRM_PROPERTY_TYPE_ENUM = z.enum(["text", "number", "boolean", "date", "datetime", "enum", "id", "reference", "other"]);
+
+// Uploaded CRM metadata: objects with their properties, plus the owners a fixed owner can be
+// picked from. Property types are normalized from the vendor's names.
+export const CrmFieldCatalogSchema = z.object({
+  source: z.object({ fileName: z.string().max(200), format: z.enum(["csv", "json"]) }),
+  importedAt: z.string(),
+  objects: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        properties: z
+          .array(z.object({ name: z.string().trim().min(1), label: z.string().nullable(), type: CRM_PROPERTY_TYPE_ENUM }))
+          .max(MAX_CATALOG_PROPERTIES),
+      })
+    )
+    .min(1, "The field catalog has no objects")
+    .max(500),
+  owners: z.array(z.object({ id: z.string().trim().min(1), email: z.string().nullable(), name: z.string().nullable() })).max(MAX_CATALOG_PROPERTIES),
+});
+
+export type CrmFieldCatalog = z.infer<typeof CrmFieldCatalogSchema>;
+
+type PropertyType = z.infer<typeof CRM_PROPERTY_TYPE_ENUM>;
+type CatalogObject = CrmFieldCatalog["objects"][number];
+type CatalogProperty = CatalogObject["properties"][number];
+
+// Vendor type names (Salesforce describe, HubSpot properties API, common CSV exports) to catalog types.
+const TYPE_ALIASES: Record<string, PropertyType> = {
+  string: "text",
+  text: "text",
+  textarea: "text",
+  phone: "text",
+  phone_number: "text",
+  email: "text",
+  url: "text",
+  encryptedstring: "text",
+  number: "number",
+  double: "number",
+  int: "number",
+  integer: "number",
+  long: "number",
+  currency: "number",
+  percent: "number",
+  boolean: "boolean",
+  bool: "boolean",
+  checkbox: "boolean",
+  date: "date",
+  datetime: "datetime",
+  date_time: "datetime",
+  enumeration: "enum",
+  enum: "enum",
+  picklist: "enum",
+  multipicklist: "enum",
+  select: "enum",
+  id: "id",
+  reference: "reference",
+  lookup: "reference",
+};
+
+// Wizard object names to the names CRMs use for them.
+const OBJECT_ALIASES: Record<string, string[]> = {
+  contact: ["contact", "contacts"],
+  company: ["company", "companies", "account", "accounts"],
+  deal: ["deal", "deals", "opportunity", "opportunities"],
+  engagement: ["call", "calls", "engagement", "engagements"],
+  task: ["task", "tasks"],
+  note: ["note", "notes"],
+};
+
+// Types that can hold an interaction or external ID.
+const ID_TYPES: PropertyType[] = ["text", "number", "id"];
+
+export function normalizePropertyType(type: string): PropertyType {
+  return TYPE_ALIASES[type.trim().toLowerCase().replace(/[\s-]/g, "_")] ?? "other";
+}
+
+export function findObject(catalog: CrmFieldCatalog, name: string): CatalogObject | null {
+  const names = OBJECT_ALIASES[name.toLowerCase()] ?? [name.toLowerCase()];
+  return catalog.objects.find((o) => names.includes(o.name.toLowerCase())) ?? null;
+}
+
+function findProperty(object: CatalogObject, name: string): CatalogProperty | null {
+  return object.properties.find((p) => p.name.toLowerCase() === name.toLowerCase()) ?? null;
+}
+
+// Splits one CSV line, honouring quoted values with commas and doubled quotes.
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+type Row = { object: string; property: string; type: string; label: string | null };
+
+function rowsFromCsv(text: string): Row[] | string {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) return "The CSV needs a header row and at least one property";
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const object = column("object", "object_name", "objecttype");
+  const property = column("property", "field", "name", "property_name", "field_name");
+  const type = column("type", "data_type", "datatype", "field_type");
+  const label = column("label", "property_label", "field_label");
+  if (object === -1 || property === -1 || type === -1) return "The CSV header needs object, property and type columns";
+
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line);
+    return { object: cells[object] ?? "", property: cells[property] ?? "", type: cells[type] ?? "", label: label === -1 ? null : cells[label] || null };
+  });
+}
+
+const str = (value: unknown) => (typeof value === "string" ? value : "");
+
+// Accepts { objects: [{ name, properties | fields }] }, a list of such objects (Salesforce
+// describe results), or a flat list of { object, property | name, type } rows.
+function catalogFromJson(input: unknown): { rows: Row[]; owners: CrmFieldCatalog["owners"] } | string {
+  const root = input as Record<string, unknown> | null;
+  const objects = Array.isArray(input) ? input : Array.isArray(root?.objects) ? root.objects : null;
+  if (!objects) return "Expected an objects list or a list of property rows";
+
+  const rows: Row[] = [];
+  for (const item of objects as Array<Record<string, unknown> | null>) {
+    if (!item || typeof item !== "object") continue;
+    const properties = Array.isArray(item.properties) ? item.properties : Array.isArray(item.fields) ? item.fields : null;
+    if (properties) {
+      for (const p of properties as Array<Record<string, unknown> | null>) {
+        if (p && typeof p === "object") rows.push({ object: str(item.name), property: str(p.name), type: str(p.type), label: str(p.label) || null });
+      }
+    } else {
+      rows.push({ object: str(item.object), property: str(item.property) || str(item.name), type: str(item.type), label: str(item.label) || null });
+    }
+  }
+
+  const owners = (Array.isArray(root?.owners) ? (root.owners as Array<Record<string, unknown> | null>) : [])
+    .filter((o): o is Record<string, unknown> => !!o && typeof o === "object" && !!(str(o.id) || str(o.email)))
+    .map((o) => ({ id: str(o.id) || str(o.email), email: str(o.email) || null, name: str(o.name) || null }));
+  return { rows, owners };
+}
+
+export type ParseFieldCatalogResult = { ok: true; catalog: CrmFieldCatalog } | { ok: false; error: string };
+
+/** Parses a CSV or JSON export of CRM object metadata into a field catalog. */
+export function parseFieldCatalog(text: string, fileName: string): ParseFieldCatalogResult {
+  if (text.length > MAX_CATALOG_BYTES) return { ok: false, error: "The file is too large for a field catalog" };
+
+  const trimmed = text.trim();
+  const format = fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("{") || trimmed.startsWith("[") ? "json" : "csv";
+
+  let rows: Row[];
+  let owners: CrmFieldCatalog["owners"] = [];
+  if (format === "json") {
+    let input: unknown;
+    try {
+      input = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, error: "Not valid JSON" };
+    }
+    const result = catalogFromJson(input);
+    if (typeof result === "string") return { ok: false, error: result };
+    ({ rows, owners } = result);
+  } else {
+    const result = rowsFromCsv(trimmed);
+    if (typeof result === "string") return { ok: false, error: result };
+    rows = result;
+  }
+
+  rows = rows.filter((r) => r.object.trim() && r.property.trim());
+  if (rows.length === 0) return { ok: false, error: "No properties found" };
+  if (rows.length > MAX_CATALOG_PROPERTIES) {
+    return { ok: false, error: `The catalog has ${rows.length} properties; the limit is ${MAX_CATALOG_PROPERTIES}` };
+  }
+
+  const objects = new Map<string, CatalogObject>();
+  for (const row of rows) {
+    const name = row.object.trim();
+    const object = objects.get(name.toLowerCase()) ?? { name, properties: [] };
+    if (!findProperty(object, row.property.trim())) {
+      object.properties.push({ name: row.property.trim(), label: row.label, type: normalizePropertyType(row.type) });
+    }
+    objects.set(name.toLowerCase(), object);
+  }
+
+  const parsed = CrmFieldCatalogSchema.safeParse({
+    source: { fileName: fileName.slice(0, 200), format },
+    importedAt: new Date().toISOString(),
+    objects: [...objects.values()],
+    owners,
+  });
+  return parsed.success ? { ok: true, catalog: parsed.data } : { ok: false, error: parsed.error.issues[0]?.message ?? "Invalid catalog" };
+}
+
+export type FieldReferences = {
+  activityObjectType: string;
+  externalIdField: string | null;
+  interactionIdField: string | null;
+  customContextFields: string[];
+  fixedOwner: string | null;
+};
+
+// Intake fields a reference finding can point at, with the matching blueprint path.
+export const FIELD_REFERENCE_PATHS = {
+  externalIdField: ["matching", "externalIdField"],
+  callIdField: ["ownership", "interactionIdField"],
+  customContextFields: ["contextInjection", "customFields"],
+  fixedOwner: ["ownership", "fixedOwner"],
+} as const;
+
+export type FieldReferenceError = { field: keyof typeof FIELD_REFERENCE_PATHS; message: string };
+
+function checkIdProperty(
+  catalog: CrmFieldCatalog,
+  objectName: string,
+  propertyName: string,
+  field: FieldReferenceError["field"]
+): FieldReferenceError | null {
+  // Objects missing from the export cannot be checked; partial exports are common.
+  const object = findObject(catalog, objectName);
+  if (!object) return null;
+
+  const property = findProperty(object, propertyName);
+  if (!property) return { field, message: `${object.name} has no "${propertyName}" property in the field catalog` };
+  if (!ID_TYPES.includes(property.type)) {
+    return { field, message: `${object.name}.${property.name} is a ${property.type} property; an ID needs a text, number or id property` };
+  }
+  return null;
+}
+
+/** Checks the properties and owner a blueprint refers to against an uploaded field catalog. */
+export function checkFieldReferences(catalog: CrmFieldCatalog, refs: FieldReferences): FieldReferenceError[] {
+  const errors: FieldReferenceError[] = [];
+
+  if (refs.externalIdField) {
+    const error = checkIdProperty(catalog, "contact", refs.externalIdField, "externalIdField");
+    if (error) errors.push(error);
+  }
+  if (refs.interactionIdField) {
+    const error = checkIdProperty(catalog, refs.activityObjectType, refs.interactionIdField, "callIdField");
+    if (error) errors.push(error);
+  }
+
+  for (const ref of refs.customContextFields) {
+    // Bare names are contact properties, the same as in the simulator.
+    const dot = ref.indexOf(".");
+    const [objectName, propertyName] = dot === -1 ? ["contact", ref] : [ref.slice(0, dot), ref.slice(dot + 1)];
+    // As with ID fields, objects missing from the export cannot be checked.
+    const object = findObject(catalog, objectName);
+    if (object && !findProperty(object, propertyName)) {
+      errors.push({ field: "customContextFields", message: `${object.name} has no "${propertyName}" property in the field catalog` });
+    }
+  }
+
+  if (refs.fixedOwner && catalog.owners.length > 0) {
+    const owner = refs.fixedOwner.toLowerCase();
+    if (!catalog.owners.some((o) => o.id.toLowerCase() === owner || o.email?.toLowerCase() === owner)) {
+      errors.push({ field: "fixedOwner", message: `"${refs.fixedOwner}" is not an owner in the field catalog` });
+    }
+  }
+
+  return errors;
+}
+
+export type PropertyOption = { value: string; label: string };
+
+/** Properties of one object for autocomplete; ID inputs only offer ID-compatible types. */
+export function propertyOptions(catalog: CrmFieldCatalog | null, objectName: string, idOnly = false): PropertyOption[] {
+  const object = catalog ? findObject(catalog, objectName) : null;
+  return (object?.properties ?? [])
+    .filter((p) => !idOnly || ID_TYPES.includes(p.type))
+    .map((p) => ({ value: p.name, label: p.label ? `${p.label} (${p.type})` : p.type }));
+}
+
+/** Every property as "object.property", for custom context fields. */
+export function contextFieldOptions(catalog: CrmFieldCatalog | null): PropertyOption[] {
+  return (catalog?.objects ?? []).flatMap((o) =>
+    o.properties.map((p) => ({ value: `${o.name.toLowerCase()}.${p.name}`, label: p.label ? `${p.label} (${p.type})` : p.type }))
+  );
+}
+
+export function countProperties(catalog: CrmFieldCatalog): number {
+  return catalog.objects.reduce((n, o) => n + o.properties.length, 0);
+}
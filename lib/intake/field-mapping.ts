@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { findObject, type CrmFieldCatalog } from "@/lib/intake/field-catalog";
+
+export const MAX_FIELD_MAPPINGS = 50;
+
+export type SourceAttribute = {
+  name: string;
+  label: string;
+  // Durations are whole seconds; codes are short values suited to lookup tables.
+  kind: "text" | "duration" | "url" | "code";
+};
+
+const COMMON_ATTRIBUTES: SourceAttribute[] = [
+  { name: "queue", label: "Queue name", kind: "text" },
+  { name: "durationSeconds", label: "Talk time", kind: "duration" },
+  { name: "holdSeconds", label: "Hold time", kind: "duration" },
+  { name: "recordingUrl", label: "Recording URL", kind: "url" },
+  { name: "disposition", label: "Disposition code", kind: "code" },
+  { name: "wrapUpNotes", label: "Wrap-up notes", kind: "text" },
+  { name: "agentEmail", label: "Agent email", kind: "text" },
+  { name: "ani", label: "Caller number (ANI)", kind: "text" },
+  { name: "dnis", label: "Dialed number (DNIS)", kind: "text" },
+  { name: "direction", label: "Direction", kind: "code" },
+  { name: "channel", label: "Channel", kind: "code" },
+];
+
+const PLATFORM_ATTRIBUTES: Record<string, SourceAttribute[]> = {
+  ringcentral: [
+    { name: "extension", label: "Agent extension", kind: "text" },
+    { name: "callResult", label: "Call result", kind: "code" },
+  ],
+  five9: [
+    { name: "campaign", label: "Campaign name", kind: "text" },
+    { name: "skill", label: "Skill", kind: "text" },
+  ],
+  genesys: [
+    { name: "conversationId", label: "Conversation ID", kind: "text" },
+    { name: "wrapUpCode", label: "Wrap-up code", kind: "code" },
+  ],
+  nice: [
+    { name: "contactId", label: "Contact ID", kind: "text" },
+    { name: "skill", label: "Skill", kind: "text" },
+  ],
+};
+
+// Custom IVR data collected before the agent answered, e.g. ivr.accountTier.
+const IVR_ATTRIBUTE = /^ivr\.[A-Za-z][A-Za-z0-9_]*$/;
+
+// Accepts any string so stored blueprints can be shown; unknown platforms get the common set.
+export function getSourceAttributes(contactCenter: string): SourceAttribute[] {
+  return [...COMMON_ATTRIBUTES, ...(Object.hasOwn(PLATFORM_ATTRIBUTES, contactCenter) ? PLATFORM_ATTRIBUTES[contactCenter] : [])];
+}
+
+function findSourceAttribute(contactCenter: string, source: string): SourceAttribute | null {
+  if (IVR_ATTRIBUTE.test(source)) return { name: source, label: "IVR data", kind: "text" };
+  return getSourceAttributes(contactCenter).find((a) => a.name === source) ?? null;
+}
+
+export const DURATION_FORMAT_ENUM = z.enum(["seconds", "minutes", "hh_mm_ss"]);
+
+export const FieldTransformSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  z.object({
+    type: z.literal("lookup"),
+    table: z
+      .array(z.object({ from: z.string().trim().min(1), to: z.string().trim() }))
+      .min(1, "Add at least one lookup value")
+      .max(200)
+      .refine((table) => new Set(table.map((e) => e.from)).size === table.length, "Each lookup value can only be listed once"),
+    // Used for values missing from the table; null passes them through unchanged.
+    fallback: z.string().trim().nullable(),
+  }),
+  z.object({ type: z.literal("duration"), format: DURATION_FORMAT_ENUM }),
+  z.object({ type: z.literal("truncate"), maxLength: z.number().int().min(1).max(10_000) }),
+]);
+
+export type FieldTransform = z.infer<typeof FieldTransformSchema>;
+
+export const FieldMappingSchema = z.object({
+  source: z.string().trim().min(1, "Pick a source attribute"),
+  target: z.string().trim().min(1, "Enter the CRM property"),
+  transform: FieldTransformSchema,
+});
+
+export type FieldMapping = z.infer<typeof FieldMappingSchema>;
+
+export type FieldMappingError = { index: number; key: "source" | "target" | "transform"; message: string };
+
+/**
+ * Cross-field checks for a mapping table: sources must exist on the platform, each CRM property is
+ * written once, and with a field catalog the target must exist on the activity object and fit the value.
+ */
+export function checkFieldMappings(
+  mappings: FieldMapping[],
+  context: { contactCenter: string; activityObjectType: string; catalog: CrmFieldCatalog | null }
+): FieldMappingError[] {
+  const errors: FieldMappingError[] = [];
+  const targets = new Set<string>();
+  const activityObject = context.catalog ? findObject(context.catalog, context.activityObjectType) : null;
+
+  mappings.forEach((mapping, index) => {
+    const source = findSourceAttribute(context.contactCenter, mapping.source);
+    if (!source) {
+      errors.push({ index, key: "source", message: `"${mapping.source}" is not an attribute of this platform; use one from the list or ivr.<name>` });
+    } else if (mapping.transform.type === "duration" && source.kind !== "duration") {
+      errors.push({ index, key: "transform", message: `${source.label} is not a duration` });
+    }
+
+    const target = mapping.target.toLowerCase();
+    if (targets.has(target)) {
+      errors.push({ index, key: "target", message: `${mapping.target} is already mapped` });
+    }
+    targets.add(target);
+
+    if (!activityObject) return;
+    const property = activityObject.properties.find((p) => p.name.toLowerCase() === target);
+    if (!property) {
+      errors.push({ index, key: "target", message: `${activityObject.name} has no "${mapping.target}" property in the field catalog` });
+    } else if (["boolean", "date", "datetime", "reference", "id"].includes(property.type)) {
+      errors.push({ index, key: "target", message: `${activityObject.name}.${property.name} is a ${property.type} property and cannot hold this value` });
+    } else if (
+      property.type === "number" &&
+      !(source?.kind === "duration" && (mapping.transform.type === "none" || (mapping.transform.type === "duration" && mapping.transform.format !== "hh_mm_ss")))
+    ) {
+      errors.push({ index, key: "target", message: `${activityObject.name}.${property.name} is a number; map a duration in seconds or minutes to it` });
+    }
+  });
+
+  return errors;
+}
+
+const DURATION_LABELS: Record<z.infer<typeof DURATION_FORMAT_ENUM>, string> = {
+  seconds: "seconds",
+  minutes: "minutes",
+  hh_mm_ss: "hh:mm:ss",
+};
+
+export function describeTransform(transform: FieldTransform): string {
+  switch (transform.type) {
+    case "none":
+      return "As is";
+    case "lookup": {
+      const values = transform.table.map((e) => `${e.from} -> ${e.to || "(empty)"}`).join(", ");
+      return `Lookup: ${values}${transform.fallback !== null ? `; otherwise ${transform.fallback || "(empty)"}` : ""}`;
+    }
+    case "duration":
+      return `Duration in ${DURATION_LABELS[transform.format]}`;
+    case "truncate":
+      return `Truncate to ${transform.maxLength} characters`;
+  }
+}
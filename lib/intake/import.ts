@@ -0,0 +1,52 @@
+import { diffBlueprints, type DiffEntry } from "@/lib/blueprints/diff";
+import { parseBlueprint, upgradeBlueprint } from "@/lib/blueprints/versions";
+import { blueprintToIntakeForm } from "@/lib/intake/denormalize";
+import { buildNormalizedIntake } from "@/lib/intake/normalize";
+import { IntakeSchema, type IntakeForm } from "@/lib/intake/schema";
+import { toValidationIssues, type ValidationIssue } from "@/lib/validation";
+
+export type ImportResult =
+  | {
+      ok: true;
+      values: IntakeForm;
+      fromVersion: string;
+      // Parts of the document the wizard cannot reproduce: unknown keys, or values it would derive differently.
+      unmapped: DiffEntry[];
+      // Wizard rules the imported values break; they have to be fixed before submitting.
+      issues: ValidationIssue[];
+    }
+  | { ok: false; error: string; issues: ValidationIssue[] };
+
+/** Turns blueprint JSON of any supported version back into wizard values. */
+export function importBlueprint(json: string): ImportResult {
+  let input: unknown;
+  try {
+    input = JSON.parse(json);
+  } catch {
+    return { ok: false, error: "Not valid JSON", issues: [] };
+  }
+
+  const parsed = parseBlueprint(input);
+  if (!parsed.ok) return { ok: false, error: "Not a valid blueprint", issues: parsed.issues };
+
+  const values = blueprintToIntakeForm(parsed.blueprint);
+
+  // Compare the upgraded document as written (unknown keys included) with what the wizard would
+  // produce from the imported values. Warnings are derived on submit, so they are left out.
+  const upgraded = upgradeBlueprint(input);
+  const form = IntakeSchema.safeParse(values);
+  const unmapped =
+    upgraded.ok && form.success
+      ? diffBlueprints({ ...upgraded.blueprint, warnings: [] }, { ...buildNormalizedIntake(form.data), warnings: [] }).sections.flatMap(
+          (s) => s.entries
+        )
+      : [];
+
+  return {
+    ok: true,
+    values,
+    fromVersion: parsed.fromVersion,
+    unmapped,
+    issues: form.success ? [] : toValidationIssues(form.error),
+  };
+}
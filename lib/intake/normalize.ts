@@ -0,0 +1,125 @@
+import type { Blueprint, TriggerChannel, TriggerEvent } from "@/lib/blueprints/schema";
+import { capabilityInputFromBlueprint, checkCapabilities } from "@/lib/intake/capabilities";
+import type { IntakeForm } from "@/lib/intake/schema";
+
+export function buildNormalizedIntake(input: IntakeForm): Blueprint {
+  const customFields = (input.customContextFields || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  const contactCenterName = input.contactCenter === "other" ? input.otherContactCenterName : input.contactCenter;
+  const channels = input.channels.map((type): TriggerChannel => {
+    switch (type) {
+      case "voice":
+        return { type };
+      case "chat":
+        return { type, attachTranscript: input.chatAttachTranscript };
+      case "sms":
+        return { type, attachTranscript: input.smsAttachTranscript };
+      case "email":
+        return { type, threadIdField: input.emailThreadIdField || null };
+      case "messaging":
+        return { type, attachTranscript: input.messagingAttachTranscript };
+    }
+  });
+  const events = input.triggerEvents.map(
+    (e): TriggerEvent => ({ name: `${contactCenterName}.${e.event}`, lifecycle: e.event, action: e.action })
+  );
+
+  const normalized: Blueprint = {
+    version: "v9",
+    mode: input.mode,
+    systems: {
+      crm: input.crm,
+      otherCrmName: input.crm === "other" ? input.otherCrmName ?? null : null,
+      contactCenter: input.contactCenter,
+      otherContactCenterName: input.contactCenter === "other" ? input.otherContactCenterName ?? null : null,
+      agentWorkspace: input.agentWorkspace,
+      environment: input.environment,
+    },
+    trigger: {
+      events,
+      channels,
+      direction: input.direction,
+    },
+    crmActivity: {
+      objectType: input.crmActivityObjectType,
+      subjectTemplate: input.subjectTemplate,
+      associations: input.associations,
+      fieldMappings: input.fieldMappings,
+    },
+    matching: {
+      strategy: input.matchingStrategy,
+      phoneNormalization: {
+        rule: input.phoneNormalization,
+        defaultCountry: input.phoneDefaultCountry,
+        stripExtension: input.phoneStripExtension,
+        otherRule: input.phoneNormalization === "other" ? input.phoneOtherRule ?? null : null,
+      },
+      externalIdField: input.matchingStrategy.includes("external_id")
+        ? input.externalIdField ?? null
+        : null,
+    },
+    contextInjection: {
+      fields: input.contextFields,
+      customFields,
+      placement: input.contextPlacement,
+    },
+    ownership: {
+      ownerStrategy: input.ownerStrategy,
+      fixedOwner: input.ownerStrategy === "fixed_owner" ? input.fixedOwner ?? null : null,
+      storeInteractionId: input.storeCallId,
+      interactionIdField: input.storeCallId ? input.callIdField : null,
+    },
+    reliability: {
+      expectedVolume: input.expectedVolume,
+      idempotencyKey: input.idempotencyKey,
+      latencyTarget: input.latencyTarget,
+    },
+    security: {
+      dataSensitivity: input.dataSensitivity,
+      logging: input.logging,
+      recording: {
+        attachRecordingLink: input.attachRecordingLink,
+        recordingRetention: input.attachRecordingLink ? input.recordingRetention : null,
+        attachCallTranscript: input.attachCallTranscript,
+        transcriptRetention: input.attachCallTranscript ? input.transcriptRetention : null,
+        consentRegions: input.consentRegions,
+        consentMethod: input.consentMethod,
+        redaction: input.redaction,
+      },
+    },
+    crmFieldCatalog: input.crmFieldCatalog,
+    // The schema rejects unmapped codes before this runs; the filter only narrows the type.
+    dispositions: input.dispositions.flatMap((d) => (d.outcome ? [{ code: d.code, label: d.label || null, outcome: d.outcome }] : [])),
+    warnings: [],
+  };
+
+  // Non-blocking warnings
+  if (normalized.systems.environment !== "sandbox" && normalized.systems.environment !== "demo") {
+    normalized.warnings.push("Evaluation-only: environment must be sandbox/demo.");
+  }
+  if (normalized.systems.agentWorkspace === "unknown") {
+    normalized.warnings.push("Agent workspace not determined — context injection placement may vary by platform.");
+  }
+  if (normalized.security.dataSensitivity === "regulated") {
+    normalized.warnings.push("Regulated data indicated — security review required before production use.");
+  }
+  if (
+    normalized.dispositions.length > 0 &&
+    !normalized.trigger.events.some((e) => e.lifecycle === "interaction.wrap_up" || e.lifecycle === "interaction.ended")
+  ) {
+    normalized.warnings.push("Disposition codes are set at wrap-up, but no wrap-up or ended event is selected; the mapping may never run.");
+  }
+  const { recording } = normalized.security;
+  if (normalized.security.dataSensitivity === "pii" && recording.attachCallTranscript && recording.redaction.length === 0) {
+    normalized.warnings.push("Call transcripts will reach the CRM unredacted; consider redacting contact details.");
+  }
+  // Blocking capability findings are enforced by IntakeSchema and on submit (edits get them as warnings on the server).
+  for (const finding of checkCapabilities(capabilityInputFromBlueprint(normalized))) {
+    if (finding.severity === "warning") normalized.warnings.push(finding.message);
+  }
+
+  return normalized;
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+export const RETENTION_ENUM = z.enum(["platform_default", "30_days", "90_days", "1_year", "7_years", "indefinite"]);
+export const CONSENT_METHOD_ENUM = z.enum(["none", "ivr_announcement", "agent_script", "keypress_opt_in"]);
+export const REDACTION_ENUM = z.enum(["payment_card", "national_id", "health", "contact_details"]);
+
+// Places where every party to a call must consent to it being recorded. Not legal advice; "other"
+// covers anything else the customer's counsel names.
+export const CONSENT_REGION_ENUM = z.enum(["us_ca", "us_fl", "us_il", "us_md", "us_ma", "us_mt", "us_nh", "us_pa", "us_wa", "eu_uk", "other"]);
+
+export const CONSENT_REGION_LABELS: Record<z.infer<typeof CONSENT_REGION_ENUM>, string> = {
+  us_ca: "California",
+  us_fl: "Florida",
+  us_il: "Illinois",
+  us_md: "Maryland",
+  us_ma: "Massachusetts",
+  us_mt: "Montana",
+  us_nh: "New Hampshire",
+  us_pa: "Pennsylvania",
+  us_wa: "Washington",
+  eu_uk: "EU / UK",
+  other: "Other",
+};
+
+export const RETENTION_LABELS: Record<z.infer<typeof RETENTION_ENUM>, string> = {
+  platform_default: "Same as the contact center",
+  "30_days": "30 days",
+  "90_days": "90 days",
+  "1_year": "1 year",
+  "7_years": "7 years",
+  indefinite: "Indefinitely",
+};
+
+export const CONSENT_METHOD_LABELS: Record<z.infer<typeof CONSENT_METHOD_ENUM>, string> = {
+  none: "Not captured",
+  ivr_announcement: "IVR announcement",
+  agent_script: "Agent asks at the start of the call",
+  keypress_opt_in: "Caller opts in with a keypress",
+};
+
+export const REDACTION_LABELS: Record<z.infer<typeof REDACTION_ENUM>, string> = {
+  payment_card: "Payment card numbers",
+  national_id: "Social security and national ID numbers",
+  health: "Health information",
+  contact_details: "Addresses, emails and phone numbers",
+};
+
+// Retention is null when nothing of that kind is attached.
+export const RecordingPolicySchema = z.object({
+  attachRecordingLink: z.boolean(),
+  recordingRetention: RETENTION_ENUM.nullable(),
+  attachCallTranscript: z.boolean(),
+  transcriptRetention: RETENTION_ENUM.nullable(),
+  consentRegions: z.array(CONSENT_REGION_ENUM),
+  consentMethod: CONSENT_METHOD_ENUM,
+  redaction: z.array(REDACTION_ENUM),
+});
+
+export type RecordingPolicy = z.infer<typeof RecordingPolicySchema>;
+
+export type RecordingFinding = { field: keyof RecordingPolicy; message: string };
+
+/**
+ * Cross-field rules for recordings and transcripts. `channelTranscripts` is true when a chat, SMS or
+ * messaging channel attaches its transcript, which counts the same as a call transcript for redaction.
+ */
+export function checkRecordingPolicy(
+  policy: RecordingPolicy,
+  context: { dataSensitivity: string; channels: string[]; channelTranscripts: boolean; mappedSources: string[] }
+): RecordingFinding[] {
+  const findings: RecordingFinding[] = [];
+  const regulated = context.dataSensitivity === "regulated";
+  const recorded = policy.attachRecordingLink || policy.attachCallTranscript;
+
+  if (policy.attachRecordingLink && !context.channels.includes("voice")) {
+    findings.push({ field: "attachRecordingLink", message: "Recording links need the Voice channel" });
+  }
+  if (policy.attachCallTranscript && !context.channels.includes("voice")) {
+    findings.push({ field: "attachCallTranscript", message: "Call transcripts need the Voice channel" });
+  }
+  // Only with voice: without it there is no recording to link, and the link cannot be turned on.
+  if (context.mappedSources.includes("recordingUrl") && !policy.attachRecordingLink && context.channels.includes("voice")) {
+    findings.push({ field: "attachRecordingLink", message: "A field mapping copies the recording URL; attach recording links or remove that mapping" });
+  }
+
+  if (regulated && (policy.attachCallTranscript || context.channelTranscripts) && policy.redaction.length === 0) {
+    findings.push({ field: "redaction", message: "Regulated data with transcripts attached requires redaction; choose what to redact" });
+  }
+  if (regulated && policy.recordingRetention === "indefinite") {
+    findings.push({ field: "recordingRetention", message: "Regulated data needs a limited retention period" });
+  }
+  if (regulated && policy.transcriptRetention === "indefinite") {
+    findings.push({ field: "transcriptRetention", message: "Regulated data needs a limited retention period" });
+  }
+
+  if (recorded && policy.consentRegions.length > 0 && policy.consentMethod === "none") {
+    findings.push({ field: "consentMethod", message: "Callers in all-party consent regions must agree to recording; choose how consent is captured" });
+  }
+
+  return findings;
+}
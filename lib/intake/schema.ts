@@ -0,0 +1,298 @@
+import { z } from "zod";
+import { checkCapabilities } from "@/lib/intake/capabilities";
+import { checkDispositions, DispositionFormSchema, MAX_DISPOSITIONS } from "@/lib/intake/dispositions";
+import { checkFieldReferences, CrmFieldCatalogSchema } from "@/lib/intake/field-catalog";
+import { checkFieldMappings, FieldMappingSchema, MAX_FIELD_MAPPINGS } from "@/lib/intake/field-mapping";
+import {
+  checkRecordingPolicy,
+  CONSENT_METHOD_ENUM,
+  CONSENT_REGION_ENUM,
+  REDACTION_ENUM,
+  RETENTION_ENUM,
+} from "@/lib/intake/recording";
+import { lintTemplate } from "@/lib/intake/subject-template";
+import { PHONE_COUNTRY_CODES } from "@/lib/phone";
+
+export const CRM_ENUM = z.enum(["hubspot", "salesforce", "other"]);
+export const CONTACT_CENTER_ENUM = z.enum(["ringcentral", "five9", "genesys", "nice", "other"]);
+export const AGENT_WORKSPACE_ENUM = z.enum(["native_ccp_desktop", "embedded_crm_panel", "custom_workspace", "hybrid_workspace", "unknown"]);
+export const ENVIRONMENT_ENUM = z.enum(["sandbox", "demo"]);
+export const DIRECTION_ENUM = z.enum(["inbound", "outbound", "both"]);
+export const CHANNEL_ENUM = z.enum(["voice", "chat", "sms", "email", "messaging"]);
+export const LIFECYCLE_EVENT_ENUM = z.enum([
+  "interaction.accepted",
+  "interaction.ended",
+  "interaction.wrap_up",
+  "interaction.missed",
+  "interaction.abandoned",
+  "voicemail.left",
+  "interaction.transferred",
+]);
+export const EVENT_ACTION_ENUM = z.enum(["create_activity", "update_activity", "create_task"]);
+export const CRM_ACTIVITY_ENUM = z.enum(["engagement", "task", "note"]);
+export const ASSOCIATION_ENUM = z.enum(["contact", "company", "deal"]);
+export const MATCHING_STRATEGY_ENUM = z.enum(["ani_phone_match", "external_id"]);
+export const OWNER_STRATEGY_ENUM = z.enum(["map_agent_email", "fixed_owner", "unassigned"]);
+export const PHONE_NORM_ENUM = z.enum(["e164", "as_is", "other"]);
+export const PHONE_COUNTRY_ENUM = z.enum(PHONE_COUNTRY_CODES);
+export const CONTEXT_PLACEMENT_ENUM = z.enum(["interaction_tab", "sidebar", "unknown"]);
+export const VOLUME_ENUM = z.enum(["lt_100", "100_1000", "1000_10000", "gt_10000"]);
+export const LATENCY_ENUM = z.enum(["best_effort", "under_2s", "under_500ms"]);
+export const SENSITIVITY_ENUM = z.enum(["low", "pii", "regulated"]);
+export const LOGGING_ENUM = z.enum(["mask_pii", "no_payload_logging"]);
+
+// Field and cross-field rules shared by new intakes and edits of stored blueprints.
+const IntakeFieldsSchema = z
+  .object({
+    // Step 0: mode (locked to feedback_only)
+    mode: z.literal("feedback_only"),
+
+    // Step 1: systems
+    crm: CRM_ENUM,
+    otherCrmName: z.string().trim().optional(),
+    contactCenter: CONTACT_CENTER_ENUM,
+    otherContactCenterName: z.string().trim().optional(),
+    agentWorkspace: AGENT_WORKSPACE_ENUM,
+    environment: ENVIRONMENT_ENUM,
+    crmFieldCatalog: CrmFieldCatalogSchema.nullable(),
+
+    // Step 2: trigger
+    direction: DIRECTION_ENUM,
+    channels: z.array(CHANNEL_ENUM).min(1, "Select at least one channel"),
+    chatAttachTranscript: z.boolean(),
+    smsAttachTranscript: z.boolean(),
+    messagingAttachTranscript: z.boolean(),
+    emailThreadIdField: z.string().trim().optional(),
+    triggerEvents: z
+      .array(z.object({ event: LIFECYCLE_EVENT_ENUM, action: EVENT_ACTION_ENUM }))
+      .min(1, "Select at least one trigger event"),
+
+    // Step 3: CRM activity
+    crmActivityObjectType: CRM_ACTIVITY_ENUM,
+    subjectTemplate: z
+      .string()
+      .min(5, "Subject template is required"),
+    associations: z
+      .array(ASSOCIATION_ENUM)
+      .min(1, "Select at least one association"),
+
+    // Step 4: field mapping
+    fieldMappings: z.array(FieldMappingSchema).max(MAX_FIELD_MAPPINGS, `Map at most ${MAX_FIELD_MAPPINGS} attributes`),
+
+    // Step 5: dispositions
+    dispositions: z.array(DispositionFormSchema).max(MAX_DISPOSITIONS, `List at most ${MAX_DISPOSITIONS} disposition codes`),
+
+    // Step 6: matching
+    matchingStrategy: z.array(MATCHING_STRATEGY_ENUM).min(1),
+    phoneNormalization: PHONE_NORM_ENUM,
+    phoneDefaultCountry: PHONE_COUNTRY_ENUM,
+    phoneStripExtension: z.boolean(),
+    phoneOtherRule: z.string().trim().optional(),
+    externalIdField: z.string().trim().optional(),
+
+    // Step 7: context injection
+    contextFields: z.array(z.string()).min(1, "Select at least one context field"),
+    customContextFields: z.string().trim().optional(), // comma-separated
+    contextPlacement: CONTEXT_PLACEMENT_ENUM,
+
+    // Step 8: ownership & audit
+    ownerStrategy: OWNER_STRATEGY_ENUM,
+    fixedOwner: z.string().trim().optional(),
+    storeCallId: z.boolean(),
+    callIdField: z.string().trim(),
+
+    // Step 9: reliability
+    expectedVolume: VOLUME_ENUM,
+    idempotencyKey: z.string().trim(),
+    latencyTarget: LATENCY_ENUM,
+
+    // Step 10: security
+    dataSensitivity: SENSITIVITY_ENUM,
+    logging: LOGGING_ENUM,
+
+    // Step 11: recordings & consent
+    attachRecordingLink: z.boolean(),
+    recordingRetention: RETENTION_ENUM,
+    attachCallTranscript: z.boolean(),
+    transcriptRetention: RETENTION_ENUM,
+    consentRegions: z.array(CONSENT_REGION_ENUM),
+    consentMethod: CONSENT_METHOD_ENUM,
+    redaction: z.array(REDACTION_ENUM),
+  })
+  .superRefine((val, ctx) => {
+    // CRM "other" requires a name
+    if (val.crm === "other" && !val.otherCrmName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["otherCrmName"],
+        message: "Please specify the CRM name",
+      });
+    }
+
+    // Contact center "other" requires a name
+    if (val.contactCenter === "other" && !val.otherContactCenterName) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["otherContactCenterName"],
+        message: "Please specify the contact center name",
+      });
+    }
+
+    // If external_id strategy is selected, externalIdField is required
+    if (val.matchingStrategy.includes("external_id") && !val.externalIdField) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["externalIdField"],
+        message: "External ID field is required when using external ID matching",
+      });
+    }
+
+    // Subject template placeholders must exist for the selected contact center
+    for (const message of lintTemplate(val.subjectTemplate, val.contactCenter)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["subjectTemplate"],
+        message,
+      });
+    }
+
+    // Updating an activity needs some event that creates it first
+    if (
+      val.triggerEvents.some((e) => e.action === "update_activity") &&
+      !val.triggerEvents.some((e) => e.action === "create_activity")
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["triggerEvents"],
+        message: "'Update activity' needs another event that creates the activity",
+      });
+    }
+
+    // "Other" phone normalization must say what the rule is
+    if (val.phoneNormalization === "other" && !val.phoneOtherRule) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["phoneOtherRule"],
+        message: "Describe the phone normalization rule",
+      });
+    }
+
+    // Owner fixed requires fixedOwner
+    if (val.ownerStrategy === "fixed_owner" && !val.fixedOwner) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["fixedOwner"],
+        message: "Fixed owner is required when using fixed owner strategy",
+      });
+    }
+
+    // With a field catalog uploaded, referenced properties and the fixed owner must exist in it
+    if (val.crmFieldCatalog) {
+      const errors = checkFieldReferences(val.crmFieldCatalog, {
+        activityObjectType: val.crmActivityObjectType,
+        externalIdField: val.matchingStrategy.includes("external_id") ? val.externalIdField || null : null,
+        interactionIdField: val.storeCallId ? val.callIdField || null : null,
+        customContextFields: (val.customContextFields || "").split(",").map((s) => s.trim()).filter(Boolean),
+        fixedOwner: val.ownerStrategy === "fixed_owner" ? val.fixedOwner || null : null,
+      });
+      for (const error of errors) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [error.field],
+          message: error.message,
+        });
+      }
+    }
+
+    // Mapped attributes must exist on the platform and each CRM property is written once
+    for (const error of checkFieldMappings(val.fieldMappings, {
+      contactCenter: val.contactCenter,
+      activityObjectType: val.crmActivityObjectType,
+      catalog: val.crmFieldCatalog,
+    })) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["fieldMappings", error.index, error.key],
+        message: error.message,
+      });
+    }
+
+    // Every disposition code needs an outcome the chosen activity type and associations can carry out
+    for (const error of checkDispositions(val.dispositions, {
+      activityObjectType: val.crmActivityObjectType,
+      associations: val.associations,
+    })) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["dispositions", error.index, error.key],
+        message: error.message,
+      });
+    }
+
+    // Regulated &rarr; enforce strict logging default
+    if (val.dataSensitivity === "regulated" && val.logging !== "no_payload_logging") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["logging"],
+        message: "For regulated data, use 'No payload logging' (recommended).",
+      });
+    }
+
+    // Recordings and transcripts need consent where required, and redaction and limited retention for regulated data
+    const recordingFindings = checkRecordingPolicy(
+      {
+        attachRecordingLink: val.attachRecordingLink,
+        recordingRetention: val.attachRecordingLink ? val.recordingRetention : null,
+        attachCallTranscript: val.attachCallTranscript,
+        transcriptRetention: val.attachCallTranscript ? val.transcriptRetention : null,
+        consentRegions: val.consentRegions,
+        consentMethod: val.consentMethod,
+        redaction: val.redaction,
+      },
+      {
+        dataSensitivity: val.dataSensitivity,
+        channels: val.channels,
+        channelTranscripts:
+          (val.channels.includes("chat") && val.chatAttachTranscript) ||
+          (val.channels.includes("sms") && val.smsAttachTranscript) ||
+          (val.channels.includes("messaging") && val.messagingAttachTranscript),
+        mappedSources: val.fieldMappings.map((m) => m.source),
+      }
+    );
+    for (const finding of recordingFindings) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [finding.field],
+        message: finding.message,
+      });
+    }
+  });
+
+// Edits keep combinations the capability catalog rejects, since a stored blueprint can predate the
+// catalog entry it breaks; the server reports them as warnings instead.
+export const IntakeRevisionSchema = IntakeFieldsSchema;
+
+// New intakes: the chosen platforms must also support the selected events, channels, activity type and placement.
+export const IntakeSchema = IntakeFieldsSchema.superRefine((val, ctx) => {
+  const findings = checkCapabilities({
+    crm: val.crm,
+    contactCenter: val.contactCenter,
+    agentWorkspace: val.agentWorkspace,
+    channels: val.channels,
+    events: val.triggerEvents.map((e) => e.event),
+    activityObjectType: val.crmActivityObjectType,
+    contextPlacement: val.contextPlacement,
+    expectedVolume: val.expectedVolume,
+    latencyTarget: val.latencyTarget,
+  });
+  for (const finding of findings) {
+    if (finding.severity !== "error") continue;
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [finding.field],
+      message: finding.message,
+    });
+  }
+});
+
+export type IntakeForm = z.infer<typeof IntakeSchema>;
@@ -0,0 +1,205 @@
+import type { z } from "zod";
+import type { CONTACT_CENTER_ENUM } from "@/lib/intake/schema";
+
+type ContactCenter = z.infer<typeof CONTACT_CENTER_ENUM>;
+
+export type TemplateVariable = {
+  name: string;
+  label: string;
+  sample: string;
+  kind?: "datetime";
+};
+
+const COMMON_VARIABLES: TemplateVariable[] = [
+  { name: "ani", label: "Caller number (ANI)", sample: "+14155550100" },
+  { name: "dnis", label: "Dialed number (DNIS)", sample: "+18005550199" },
+  { name: "interactionId", label: "Interaction ID", sample: "int-8f14e45f" },
+  { name: "agentName", label: "Agent name", sample: "Jordan Lee" },
+  { name: "agentEmail", label: "Agent email", sample: "jordan.lee@example.com" },
+  { name: "queue", label: "Queue name", sample: "Support - Tier 1" },
+  { name: "direction", label: "Direction", sample: "inbound" },
+  { name: "channel", label: "Channel", sample: "voice" },
+  { name: "timestamp", label: "Interaction start time", sample: "2026-03-14T15:09:26Z", kind: "datetime" },
+];
+
+const PLATFORM_VARIABLES: Record<ContactCenter, TemplateVariable[]> = {
+  ringcentral: [{ name: "extension", label: "Agent extension", sample: "1042" }],
+  five9: [
+    { name: "campaign", label: "Campaign name", sample: "Spring Renewals" },
+    { name: "skill", label: "Skill", sample: "Billing" },
+  ],
+  genesys: [
+    { name: "conversationId", label: "Conversation ID", sample: "c7a1d2e0-5b9f" },
+    { name: "wrapUpCode", label: "Wrap-up code", sample: "Resolved" },
+  ],
+  nice: [
+    { name: "contactId", label: "Contact ID", sample: "583920174" },
+    { name: "skill", label: "Skill", sample: "Billing" },
+  ],
+  other: [],
+};
+
+export const TEMPLATE_FILTERS = ["date", "upper", "lower", "truncate", "default"] as const;
+
+// Accepts any string so stored blueprints can be previewed; unknown platforms get the common set.
+export function getTemplateVariables(contactCenter: string): TemplateVariable[] {
+  const platform = Object.hasOwn(PLATFORM_VARIABLES, contactCenter) ? PLATFORM_VARIABLES[contactCenter as ContactCenter] : [];
+  return [...COMMON_VARIABLES, ...platform];
+}
+
+export function getSampleValues(contactCenter: string): Record<string, string> {
+  return Object.fromEntries(getTemplateVariables(contactCenter).map((v) => [v.name, v.sample]));
+}
+
+type Filter = { name: string; arg?: string };
+
+type Placeholder = {
+  raw: string;
+  variable: string;
+  filters: Filter[];
+};
+
+const PLACEHOLDER = /\{\{([^{}]*)\}\}/g;
+
+function unquote(value: string): string {
+  const v = value.trim();
+  if (v.length >= 2 && (v[0] === '"' || v[0] === "'") && v[v.length - 1] === v[0]) {
+    return v.slice(1, -1);
+  }
+  return v;
+}
+
+function parsePlaceholder(raw: string, body: string): Placeholder {
+  const [variable, ...rest] = body.split("|");
+  return {
+    raw,
+    variable: variable.trim(),
+    filters: rest.map((part) => {
+      const sep = part.indexOf(":");
+      if (sep === -1) return { name: part.trim() };
+      return { name: part.slice(0, sep).trim(), arg: unquote(part.slice(sep + 1)) };
+    }),
+  };
+}
+
+function parsePlaceholders(template: string): Placeholder[] {
+  return Array.from(template.matchAll(PLACEHOLDER), (m) => parsePlaceholder(m[0], m[1]));
+}
+
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+function closest(name: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const c of candidates) {
+    const d = editDistance(name.toLowerCase(), c.toLowerCase());
+    if (d < bestDistance) {
+      best = c;
+      bestDistance = d;
+    }
+  }
+  return bestDistance <= 2 ? best : undefined;
+}
+
+/** Returns one message per problem; an empty list means the template is usable as-is. */
+export function lintTemplate(template: string, contactCenter: string): string[] {
+  const variables = getTemplateVariables(contactCenter);
+  const names = variables.map((v) => v.name);
+  const messages: string[] = [];
+
+  const leftover = template.replace(PLACEHOLDER, "");
+  if (leftover.includes("{{") || leftover.includes("}}")) {
+    messages.push("Unbalanced braces - placeholders look like {{ani}}");
+  }
+
+  for (const p of parsePlaceholders(template)) {
+    const variable = variables.find((v) => v.name === p.variable);
+    if (!p.variable) {
+      messages.push(`Empty placeholder ${p.raw}`);
+      continue;
+    }
+    if (!variable) {
+      const suggestion = closest(p.variable, names);
+      messages.push(
+        suggestion
+          ? `Unknown variable "${p.variable}" - did you mean "${suggestion}"?`
+          : `Unknown variable "${p.variable}" for this contact center`
+      );
+    }
+
+    for (const f of p.filters) {
+      if (!(TEMPLATE_FILTERS as readonly string[]).includes(f.name)) {
+        const suggestion = closest(f.name, [...TEMPLATE_FILTERS]);
+        messages.push(
+          suggestion ? `Unknown filter "${f.name}" - did you mean "${suggestion}"?` : `Unknown filter "${f.name}" in ${p.raw}`
+        );
+      } else if (f.name === "truncate" && !/^\d+$/.test(f.arg ?? "")) {
+        messages.push(`Filter "truncate" needs a length, e.g. {{${p.variable} | truncate:40}}`);
+      } else if (f.name === "date" && variable && variable.kind !== "datetime") {
+        messages.push(`Filter "date" only applies to date/time variables, not "${p.variable}"`);
+      }
+    }
+  }
+
+  return messages;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// Dates render in UTC so previews are identical on the server and in every browser.
+function formatDate(value: string, format = "YYYY-MM-DD HH:mm"): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+
+  const parts: Record<string, string> = {
+    YYYY: String(d.getUTCFullYear()),
+    MM: pad(d.getUTCMonth() + 1),
+    DD: pad(d.getUTCDate()),
+    HH: pad(d.getUTCHours()),
+    mm: pad(d.getUTCMinutes()),
+    ss: pad(d.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
+function applyFilter(value: string, filter: Filter): string {
+  switch (filter.name) {
+    case "date":
+      return formatDate(value, filter.arg || undefined);
+    case "upper":
+      return value.toUpperCase();
+    case "lower":
+      return value.toLowerCase();
+    case "truncate": {
+      const length = Number(filter.arg);
+      return Number.isInteger(length) && value.length > length ? `${value.slice(0, length)}…` : value;
+    }
+    case "default":
+      return value || (filter.arg ?? "");
+    default:
+      return value;
+  }
+}
+
+/** Renders known placeholders; unknown ones are left in place so problems stay visible. */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (raw, body: string) => {
+    const p = parsePlaceholder(raw, body);
+    if (!Object.hasOwn(values, p.variable)) return raw;
+    return p.filters.reduce(applyFilter, values[p.variable]);
+  });
+}
@@ -0,0 +1,191 @@
+import { dispositionAttribute } from "@/lib/intake/dispositions";
+import type { IntakeForm } from "@/lib/intake/schema";
+
+// Every template sets all of these, so nothing from a previously applied template carries over.
+export type TemplateField =
+  | "crm"
+  | "contactCenter"
+  | "agentWorkspace"
+  | "triggerEvents"
+  | "crmActivityObjectType"
+  | "subjectTemplate"
+  | "associations"
+  | "fieldMappings"
+  | "matchingStrategy"
+  | "externalIdField"
+  | "contextFields"
+  | "contextPlacement"
+  | "storeCallId"
+  | "callIdField"
+  | "latencyTarget";
+
+export type IntakeTemplate = {
+  id: string;
+  label: string;
+  description: string;
+  // Everything outside TemplateField keeps its current value.
+  values: Required<Pick<IntakeForm, TemplateField>>;
+};
+
+const CALL_ACTIVITY_EVENTS: IntakeForm["triggerEvents"] = [{ event: "interaction.accepted", action: "create_activity" }];
+
+// Salesforce logs calls as Tasks, with the telephony call id in the standard CallObject field.
+const SALESFORCE_DEFAULTS = {
+  crm: "salesforce",
+  agentWorkspace: "embedded_crm_panel",
+  crmActivityObjectType: "task",
+  associations: ["contact", "company"],
+  matchingStrategy: ["ani_phone_match", "external_id"],
+  externalIdField: "External_Id__c",
+  contextFields: ["contact.fullName", "company.name", "contact.email", "stats.openTickets"],
+  contextPlacement: "sidebar",
+  storeCallId: true,
+  callIdField: "CallObject",
+  latencyTarget: "under_2s",
+} satisfies Partial<IntakeForm>;
+
+// Standard Task call fields; the disposition comes from wherever the platform reports it.
+function salesforceCallFields(contactCenter: string): IntakeForm["fieldMappings"] {
+  return [
+    { source: "durationSeconds", target: "CallDurationInSeconds", transform: { type: "none" } },
+    { source: dispositionAttribute(contactCenter), target: "CallDisposition", transform: { type: "truncate", maxLength: 255 } },
+    {
+      source: "direction",
+      target: "CallType",
+      transform: {
+        type: "lookup",
+        table: [
+          { from: "inbound", to: "Inbound" },
+          { from: "outbound", to: "Outbound" },
+        ],
+        fallback: null,
+      },
+    },
+  ];
+}
+
+// HubSpot's calling integrations fill the call properties themselves, so no mappings are preset.
+const HUBSPOT_DEFAULTS = {
+  crm: "hubspot",
+  crmActivityObjectType: "engagement",
+  associations: ["contact", "company"],
+  fieldMappings: [],
+  matchingStrategy: ["ani_phone_match"],
+  externalIdField: "",
+  contextFields: ["contact.fullName", "company.name", "contact.lastActivityDate", "stats.openDeals"],
+  storeCallId: true,
+} satisfies Partial<IntakeForm>;
+
+export const INTAKE_TEMPLATES: IntakeTemplate[] = [
+  {
+    id: "hubspot-ringcentral",
+    label: "HubSpot + RingCentral",
+    description: "Calls logged from the RingCentral app embedded in HubSpot.",
+    values: {
+      ...HUBSPOT_DEFAULTS,
+      contactCenter: "ringcentral",
+      agentWorkspace: "embedded_crm_panel",
+      contextPlacement: "sidebar",
+      triggerEvents: CALL_ACTIVITY_EVENTS,
+      subjectTemplate: "{{direction}} call with {{ani}} (ext. {{extension}})",
+      callIdField: "ringcentral_session_id",
+      latencyTarget: "under_2s",
+    },
+  },
+  {
+    id: "hubspot-five9",
+    label: "HubSpot + Five9",
+    description: "Agents work in the Five9 desktop; HubSpot gets the call record and follow-up tasks.",
+    values: {
+      ...HUBSPOT_DEFAULTS,
+      contactCenter: "five9",
+      agentWorkspace: "native_ccp_desktop",
+      contextPlacement: "interaction_tab",
+      triggerEvents: CALL_ACTIVITY_EVENTS,
+      subjectTemplate: "{{campaign}} call with {{ani}}",
+      callIdField: "five9_call_id",
+      // Five9 events are polled, so tighter targets cannot be met.
+      latencyTarget: "best_effort",
+    },
+  },
+  {
+    id: "salesforce-genesys",
+    label: "Salesforce + Genesys",
+    description: "Genesys Cloud embedded in Salesforce, with wrap-up codes on the call task.",
+    values: {
+      ...SALESFORCE_DEFAULTS,
+      contactCenter: "genesys",
+      fieldMappings: salesforceCallFields("genesys"),
+      subjectTemplate: "{{direction}} {{channel}} - {{wrapUpCode}}",
+      triggerEvents: [
+        { event: "interaction.accepted", action: "create_activity" },
+        { event: "interaction.wrap_up", action: "update_activity" },
+      ],
+    },
+  },
+  {
+    id: "salesforce-nice",
+    label: "Salesforce + NICE",
+    description: "NICE CXone agent embedded in Salesforce.",
+    values: {
+      ...SALESFORCE_DEFAULTS,
+      contactCenter: "nice",
+      fieldMappings: salesforceCallFields("nice"),
+      subjectTemplate: "{{skill}} call with {{ani}} ({{contactId}})",
+      triggerEvents: CALL_ACTIVITY_EVENTS,
+    },
+  },
+  {
+    id: "salesforce-five9",
+    label: "Salesforce + Five9",
+    description: "Five9 adapter for Salesforce, with missed calls turned into follow-up tasks.",
+    values: {
+      ...SALESFORCE_DEFAULTS,
+      contactCenter: "five9",
+      fieldMappings: salesforceCallFields("five9"),
+      subjectTemplate: "{{campaign}} call with {{ani}}",
+      latencyTarget: "best_effort",
+      triggerEvents: [
+        { event: "interaction.accepted", action: "create_activity" },
+        { event: "interaction.missed", action: "create_task" },
+      ],
+    },
+  },
+  {
+    id: "salesforce-ringcentral",
+    label: "Salesforce + RingCentral",
+    description: "RingCentral for Salesforce, with voicemails turned into follow-up tasks.",
+    values: {
+      ...SALESFORCE_DEFAULTS,
+      contactCenter: "ringcentral",
+      fieldMappings: salesforceCallFields("ringcentral"),
+      subjectTemplate: "{{direction}} call with {{ani}} (ext. {{extension}})",
+      triggerEvents: [
+        { event: "interaction.accepted", action: "create_activity" },
+        { event: "voicemail.left", action: "create_task" },
+      ],
+    },
+  },
+];
+
+export const TEMPLATE_FIELD_LABELS: Record<TemplateField, string> = {
+  crm: "CRM",
+  contactCenter: "Contact center platform",
+  agentWorkspace: "Agent workspace",
+  triggerEvents: "Trigger events",
+  crmActivityObjectType: "CRM activity type",
+  subjectTemplate: "Subject template",
+  associations: "Associations",
+  fieldMappings: "Field mappings",
+  matchingStrategy: "Matching strategy",
+  externalIdField: "External ID field",
+  contextFields: "Context fields",
+  contextPlacement: "Context placement",
+  storeCallId: "Store interaction ID",
+  callIdField: "Interaction ID field",
+  latencyTarget: "Latency target",
+};
+
+export function getTemplate(id: string): IntakeTemplate | undefined {
+  return INTAKE_TEMPLATES.find((t) => t.id === id);
+}
@@ -0,0 +1,88 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import { Resend } from "resend";
+import type { IntakeNotification, Notifier } from "@/lib/notify/notifier";
+
+export function createResendNotifier(options: { apiKey: string; from: string; to: string[] }): Notifier {
+  const resend = new Resend(options.apiKey);
+
+  return {
+    channel: "resend",
+    async send(n) {
+      // The SDK reports API failures in the result rather than throwing.
+      const { error } = await resend.emails.send({
+        from: options.from,
+        to: options.to,
+        subject: n.subject,
+        text: n.text,
+        html: n.html,
+        attachments: n.attachments.map((a) => ({ filename: a.filename, contentType: a.contentType, content: Buffer.from(a.content) })),
+      });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+export function createSmtpNotifier(options: { url: string; from: string; to: string[] }): Notifier {
+  const transport = nodemailer.createTransport(options.url);
+
+  return {
+    channel: "smtp",
+    async send(n) {
+      await transport.sendMail({
+        from: options.from,
+        to: options.to,
+        subject: n.subject,
+        text: n.text,
+        html: n.html,
+        attachments: n.attachments,
+      });
+    },
+  };
+}
+
+export type WebhookFormat = "slack" | "teams";
+
+function webhookBody(format: WebhookFormat, n: IntakeNotification): unknown {
+  const lines = [`*${n.subject}*`, ...n.summary];
+  if (n.link) lines.push(n.link);
+  // Slack and Teams incoming webhooks both accept a bare { text } payload; Teams renders markdown
+  // but needs blank lines between paragraphs.
+  return { text: lines.join(format === "teams" ? "\n\n" : "\n") };
+}
+
+export function createWebhookNotifier(options: { url: string; format: WebhookFormat }): Notifier {
+  return {
+    channel: "webhook",
+    async send(n) {
+      const res = await fetch(options.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(webhookBody(options.format, n)),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+export function createFileNotifier(dir: string): Notifier {
+  return {
+    channel: "file",
+    async send(n) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, `${n.id}.txt`), `Subject: ${n.subject}\n\n${n.text}\n`, "utf8");
+      await fs.writeFile(path.join(dir, `${n.id}.html`), n.html, "utf8");
+      for (const a of n.attachments) await fs.writeFile(path.join(dir, a.filename), a.content, "utf8");
+    },
+  };
+}
+
+export function createConsoleNotifier(): Notifier {
+  return {
+    channel: "console",
+    async send(n) {
+      console.info(`[intake] ${n.subject}\n${[...n.summary, ...(n.link ? [n.link] : [])].join("\n")}`);
+    },
+  };
+}
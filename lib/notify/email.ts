@@ -0,0 +1,207 @@
+import type { Blueprint } from "@/lib/blueprints/schema";
+import { describeOutcome } from "@/lib/intake/dispositions";
+import { CONSENT_METHOD_LABELS, CONSENT_REGION_LABELS, REDACTION_LABELS, RETENTION_LABELS } from "@/lib/intake/recording";
+import type { RevisionInfo } from "@/lib/notify/notifier";
+
+type Section = { title: string; rows: Array<[label: string, value: string]> };
+
+const MATCHING_LABELS: Record<Blueprint["matching"]["strategy"][number], string> = {
+  ani_phone_match: "Customer phone number",
+  external_id: "External customer ID",
+};
+
+const LIFECYCLE_LABELS: Record<Blueprint["trigger"]["events"][number]["lifecycle"], string> = {
+  "interaction.accepted": "Interaction accepted",
+  "interaction.ended": "Interaction ended",
+  "interaction.wrap_up": "Wrap-up completed",
+  "interaction.missed": "Missed call",
+  "interaction.abandoned": "Abandoned call",
+  "voicemail.left": "Voicemail left",
+  "interaction.transferred": "Interaction transferred",
+};
+
+const ACTION_LABELS: Record<Blueprint["trigger"]["events"][number]["action"], string> = {
+  create_activity: "Create CRM activity",
+  update_activity: "Update the interaction's CRM activity",
+  create_task: "Create follow-up task",
+};
+
+const OWNER_LABELS: Record<Blueprint["ownership"]["ownerStrategy"], string> = {
+  map_agent_email: "Agent who handled the interaction",
+  fixed_owner: "Fixed CRM owner or queue",
+  unassigned: "Unassigned",
+};
+
+function channelLine(channel: Blueprint["trigger"]["channels"][number]): string {
+  const label = channel.type === "sms" ? "SMS" : channel.type.charAt(0).toUpperCase() + channel.type.slice(1);
+  if ("attachTranscript" in channel && channel.attachTranscript) return `${label} (transcript attached)`;
+  if (channel.type === "email" && channel.threadIdField) return `${label} (thread ID -> ${channel.threadIdField})`;
+  return label;
+}
+
+function phoneLine({ rule, defaultCountry, stripExtension, otherRule }: Blueprint["matching"]["phoneNormalization"]): string {
+  const extension = stripExtension ? "extensions stripped" : "extensions kept";
+  if (rule === "e164") return `E.164, default country ${defaultCountry}, ${extension}`;
+  if (rule === "as_is") return `Keep as-is, ${extension}`;
+  return `Custom: ${otherRule ?? "not described"}, ${extension}`;
+}
+
+function attachmentLine(attached: boolean, retention: Blueprint["security"]["recording"]["recordingRetention"]): string {
+  if (!attached) return "Not attached";
+  return retention ? `Attached, kept ${RETENTION_LABELS[retention].toLowerCase()}` : "Attached";
+}
+
+/** The blueprint summary as label/value rows, shared by the HTML and plain-text bodies. */
+export function summarizeBlueprint(blueprint: Blueprint): Section[] {
+  const { systems, trigger, crmActivity, matching, contextInjection, ownership, reliability, security } = blueprint;
+
+  return [
+    {
+      title: "Connected Systems",
+      rows: [
+        ["CRM", systems.otherCrmName ?? systems.crm],
+        ["Contact center", systems.otherContactCenterName ?? systems.contactCenter],
+        ["Agent workspace", systems.agentWorkspace],
+        ["Environment", systems.environment],
+      ],
+    },
+    {
+      title: "Trigger",
+      rows: [
+        ["Channels", trigger.channels.map(channelLine).join(", ")],
+        ["Direction", trigger.direction],
+        ...trigger.events.map((e): [string, string] => [LIFECYCLE_LABELS[e.lifecycle], `${ACTION_LABELS[e.action]} (${e.name})`]),
+      ],
+    },
+    {
+      title: "CRM Activity",
+      rows: [
+        ["Object type", crmActivity.objectType],
+        ["Subject template", crmActivity.subjectTemplate],
+        ["Associations", crmActivity.associations.join(", ")],
+        ["Field mappings", crmActivity.fieldMappings.map((m) => `${m.source} -> ${m.target}`).join(", ") || "None"],
+      ],
+    },
+    ...(blueprint.dispositions.length > 0
+      ? [
+          {
+            title: "Dispositions",
+            rows: blueprint.dispositions.map((d): [string, string] => [d.label ? `${d.code} (${d.label})` : d.code, describeOutcome(d.outcome)]),
+          },
+        ]
+      : []),
+    {
+      title: "Matching",
+      rows: [
+        ["Match by", matching.strategy.map((s) => MATCHING_LABELS[s]).join(", then ")],
+        ["Phone normalization", phoneLine(matching.phoneNormalization)],
+        ["External ID field", matching.externalIdField ?? "N/A"],
+        ["Agent context", [...contextInjection.fields, ...contextInjection.customFields].join(", ")],
+      ],
+    },
+    {
+      title: "Ownership",
+      rows: [
+        ["Owner", ownership.ownerStrategy === "fixed_owner" ? `${OWNER_LABELS.fixed_owner}: ${ownership.fixedOwner}` : OWNER_LABELS[ownership.ownerStrategy]],
+        ["Interaction ID field", ownership.storeInteractionId ? ownership.interactionIdField || "N/A" : "Not stored"],
+      ],
+    },
+    {
+      title: "Reliability",
+      rows: [
+        ["Expected volume", reliability.expectedVolume],
+        ["Idempotency key", reliability.idempotencyKey || "N/A"],
+        ["Latency target", reliability.latencyTarget],
+      ],
+    },
+    {
+      title: "Security",
+      rows: [
+        ["Data sensitivity", security.dataSensitivity],
+        ["Logging", security.logging],
+        ["Recording links", attachmentLine(security.recording.attachRecordingLink, security.recording.recordingRetention)],
+        ["Call transcripts", attachmentLine(security.recording.attachCallTranscript, security.recording.transcriptRetention)],
+        ["All-party consent regions", security.recording.consentRegions.map((r) => CONSENT_REGION_LABELS[r]).join(", ") || "None"],
+        ["Consent capture", CONSENT_METHOD_LABELS[security.recording.consentMethod]],
+        ["Redaction", security.recording.redaction.map((r) => REDACTION_LABELS[r]).join(", ") || "None"],
+      ],
+    },
+    ...(blueprint.crmFieldCatalog
+      ? [
+          {
+            title: "CRM Field Catalog",
+            rows: [
+              ["Source", blueprint.crmFieldCatalog.source.fileName],
+              ["Objects", blueprint.crmFieldCatalog.objects.map((o) => `${o.name} (${o.properties.length})`).join(", ")],
+              ["Owners", String(blueprint.crmFieldCatalog.owners.length)],
+            ] satisfies Array<[string, string]>,
+          },
+        ]
+      : []),
+  ];
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] ?? c);
+}
+
+function revisionLine({ revision, author, note }: RevisionInfo): string {
+  return `Revision ${revision} by ${author ?? "unknown"}${note ? `: ${note}` : ""}`;
+}
+
+function heading(revision?: RevisionInfo): string {
+  return revision ? "CRM <-> Contact Center Blueprint Updated" : "New CRM <-> Contact Center Intake";
+}
+
+export function renderIntakeText(id: string, blueprint: Blueprint, link: string | null, revision?: RevisionInfo): string {
+  const lines = [heading(revision), "", `Blueprint id: ${id}`];
+  if (revision) lines.push(revisionLine(revision));
+  if (link) lines.push(`View blueprint: ${link}`);
+
+  if (blueprint.warnings.length > 0) {
+    lines.push("", "WARNINGS", ...blueprint.warnings.map((w) => `- ${w}`));
+  }
+  for (const section of summarizeBlueprint(blueprint)) {
+    lines.push("", section.title.toUpperCase(), ...section.rows.map(([label, value]) => `${label}: ${value}`));
+  }
+  lines.push("", "The full blueprint JSON is attached.");
+  return lines.join("\n");
+}
+
+// Email clients ignore <style> blocks unevenly, so everything is inline and table-based.
+export function renderIntakeHtml(id: string, blueprint: Blueprint, link: string | null, revision?: RevisionInfo): string {
+  const warnings =
+    blueprint.warnings.length > 0
+      ? `<div style="margin:16px 0;padding:12px 16px;border:1px solid #f5c26b;background:#fff8e6;border-radius:8px;color:#7a4b00;font-size:14px">
+<strong>Warnings</strong><ul style="margin:8px 0 0;padding-left:20px">${blueprint.warnings.map((w) => `<li>${escapeHtml(w)}</li>`).join("")}</ul></div>`
+      : "";
+
+  const sections = summarizeBlueprint(blueprint)
+    .map(
+      (section) => `<h2 style="margin:24px 0 8px;font-size:13px;text-transform:uppercase;letter-spacing:0.05em;color:#666">${escapeHtml(section.title)}</h2>
+<table role="presentation" cellpadding="0" cellspacing="0" style="width:100%;border-collapse:collapse;font-size:14px">${section.rows
+        .map(
+          ([label, value]) =>
+            `<tr><td style="padding:6px 12px 6px 0;border-top:1px solid #eee;color:#666;width:40%;vertical-align:top">${escapeHtml(label)}</td><td style="padding:6px 0;border-top:1px solid #eee;color:#111">${escapeHtml(value)}</td></tr>`
+        )
+        .join("")}</table>`
+    )
+    .join("\n");
+
+  const button = link
+    ? `<p style="margin:16px 0"><a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 16px;background:#111;color:#fff;border-radius:8px;text-decoration:none;font-size:14px">View blueprint</a></p>`
+    : "";
+
+  return `<!doctype html>
+<html><body style="margin:0;padding:24px;background:#f6f6f6;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif">
+<div style="max-width:640px;margin:0 auto;padding:24px;background:#fff;border-radius:12px">
+<h1 style="margin:0 0 4px;font-size:20px;color:#111">${escapeHtml(heading(revision))}</h1>
+<p style="margin:0;color:#666;font-size:13px">Blueprint id: ${escapeHtml(id)}</p>
+${revision ? `<p style="margin:4px 0 0;color:#666;font-size:13px">${escapeHtml(revisionLine(revision))}</p>` : ""}
+${button}
+${warnings}
+${sections}
+<p style="margin:24px 0 0;color:#666;font-size:12px">The full blueprint JSON is attached.</p>
+</div>
+</body></html>`;
+}
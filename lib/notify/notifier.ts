@@ -0,0 +1,141 @@
+import path from "node:path";
+import type { Blueprint } from "@/lib/blueprints/schema";
+import {
+  createConsoleNotifier,
+  createFileNotifier,
+  createResendNotifier,
+  createSmtpNotifier,
+  createWebhookNotifier,
+} from "@/lib/notify/channels";
+import { renderIntakeHtml, renderIntakeText } from "@/lib/notify/email";
+
+export type NotificationAttachment = { filename: string; contentType: string; content: string };
+
+export type IntakeNotification = {
+  id: string;
+  subject: string;
+  // Short "Label: value" lines for chat-style channels.
+  summary: string[];
+  // Plain-text alternative to the HTML body.
+  text: string;
+  html: string;
+  // Shared blueprint page, when the public URL is known.
+  link: string | null;
+  attachments: NotificationAttachment[];
+};
+
+export type NotifierChannel = "resend" | "smtp" | "webhook" | "file" | "console";
+
+export type Notifier = {
+  channel: NotifierChannel;
+  send(notification: IntakeNotification): Promise<void>;
+};
+
+export type RevisionInfo = { revision: number; author: string | null; note: string | null };
+
+/**
+ * Link to the blueprint page under APP_BASE_URL. The request Host header can be forged, so without
+ * a configured URL the notification has no link.
+ */
+export function blueprintLink(id: string): string | null {
+  const baseUrl = process.env.APP_BASE_URL?.trim().replace(/\/$/, "");
+  return baseUrl ? `${baseUrl}/blueprint/${id}` : null;
+}
+
+export function buildIntakeNotification(
+  id: string,
+  blueprint: Blueprint,
+  link: string | null,
+  // Set when an existing blueprint was edited rather than newly submitted.
+  revision?: RevisionInfo
+): IntakeNotification {
+  const { systems, trigger } = blueprint;
+  const summary = [
+    `Blueprint id: ${id}`,
+    ...(revision
+      ? [`Revision: ${revision.revision} by ${revision.author ?? "unknown"}${revision.note ? ` - ${revision.note}` : ""}`]
+      : []),
+    `CRM: ${systems.otherCrmName ?? systems.crm}`,
+    `Contact Center Platform: ${systems.otherContactCenterName ?? systems.contactCenter}`,
+    `Agent Workspace: ${systems.agentWorkspace}`,
+    `Trigger events: ${trigger.events.map((e) => `${e.name} -> ${e.action}`).join(", ")}`,
+    `Trigger channels: ${trigger.channels.map((c) => c.type).join(", ")}`,
+    `Trigger direction: ${trigger.direction}`,
+  ];
+
+  return {
+    // Unique per notification, so each revision gets its own outbox entries.
+    id: revision ? `${id}-r${revision.revision}` : id,
+    subject: revision
+      ? `CRM <-> Contact Center Blueprint Updated (revision ${revision.revision})`
+      : "New CRM <-> Contact Center Intake Received",
+    summary,
+    text: renderIntakeText(id, blueprint, link, revision),
+    html: renderIntakeHtml(id, blueprint, link, revision),
+    link,
+    attachments: [
+      {
+        filename: `blueprint-${id}${revision ? `-r${revision.revision}` : ""}.json`,
+        contentType: "application/json",
+        content: JSON.stringify(blueprint, null, 2),
+      },
+    ],
+  };
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing ${name}`);
+  return value;
+}
+
+function recipients(): string[] {
+  return requireEnv("INTAKE_RECEIVER_EMAIL")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+const DEFAULT_SENDER = "Micro-SI Intake <onboarding@resend.dev>";
+
+function createNotifier(channel: string): Notifier {
+  const from = process.env.INTAKE_SENDER_EMAIL || DEFAULT_SENDER;
+
+  switch (channel) {
+    case "resend":
+      return createResendNotifier({ apiKey: requireEnv("RESEND_API_KEY"), from, to: recipients() });
+    case "smtp":
+      return createSmtpNotifier({ url: requireEnv("SMTP_URL"), from, to: recipients() });
+    case "webhook": {
+      const format = process.env.INTAKE_WEBHOOK_FORMAT ?? "slack";
+      if (format !== "slack" && format !== "teams") throw new Error(`Unknown INTAKE_WEBHOOK_FORMAT: ${format}`);
+      return createWebhookNotifier({ url: requireEnv("INTAKE_WEBHOOK_URL"), format });
+    }
+    case "file":
+      return createFileNotifier(process.env.INTAKE_NOTIFY_DIR ?? path.join(process.cwd(), ".data", "notifications"));
+    case "console":
+      return createConsoleNotifier();
+    default:
+      throw new Error(`Unknown notifier: ${channel}`);
+  }
+}
+
+let notifiers: Notifier[] | null = null;
+
+/**
+ * Channels selected by INTAKE_NOTIFIERS, a comma-separated list of
+ * "resend" | "smtp" | "webhook" | "file" | "console" (default "resend").
+ * Missing settings for a selected channel throw, so misconfiguration surfaces before anything is stored.
+ */
+export function getNotifiers(): Notifier[] {
+  if (notifiers) return notifiers;
+
+  const channels = (process.env.INTAKE_NOTIFIERS ?? "resend")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (channels.length === 0) throw new Error("INTAKE_NOTIFIERS is empty");
+
+  notifiers = [...new Set(channels)].map(createNotifier);
+  return notifiers;
+}
@@ -0,0 +1,224 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { isValidBlueprintId } from "@/lib/blueprints/store";
+import { getNotifiers, type IntakeNotification, type NotifierChannel } from "@/lib/notify/notifier";
+
+export type OutboxStatus = "pending" | "delivered" | "dead";
+
+/** One notification to one channel. Written before the first send so nothing is lost if it fails. */
+export type OutboxEntry = {
+  id: string;
+  // Notification ids of revisions are "<blueprint id>-r<n>". Missing on entries written before it was stored.
+  blueprintId?: string;
+  channel: NotifierChannel;
+  notification: IntakeNotification;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// What the intake API reports per channel; "pending" means a retry is scheduled.
+export type DeliveryResult = {
+  channel: NotifierChannel;
+  status: OutboxStatus;
+  attempts: number;
+  error: string | null;
+};
+
+export function toDeliveryResult(entry: OutboxEntry): DeliveryResult {
+  return { channel: entry.channel, status: entry.status, attempts: entry.attempts, error: entry.lastError };
+}
+
+export type OutboxStore = {
+  get(id: string): Promise<OutboxEntry | null>;
+  put(entry: OutboxEntry): Promise<void>;
+  list(): Promise<OutboxEntry[]>;
+};
+
+export function createMemoryOutboxStore(): OutboxStore {
+  const entries = new Map<string, OutboxEntry>();
+
+  return {
+    async get(id) {
+      return entries.get(id) ?? null;
+    },
+    async put(entry) {
+      entries.set(entry.id, entry);
+    },
+    async list() {
+      return [...entries.values()];
+    },
+  };
+}
+
+export function createFileOutboxStore(dir: string): OutboxStore {
+  const fileFor = (id: string) => path.join(dir, `${id}.json`);
+
+  return {
+    async get(id) {
+      if (!isValidBlueprintId(id)) return null;
+      try {
+        return JSON.parse(await fs.readFile(fileFor(id), "utf8")) as OutboxEntry;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+    async put(entry) {
+      if (!isValidBlueprintId(entry.id)) {
+        throw new Error(`Invalid outbox id: ${entry.id}`);
+      }
+      await fs.mkdir(dir, { recursive: true });
+      const tmp = `${fileFor(entry.id)}.${process.pid}.${randomUUID()}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(entry, null, 2), "utf8");
+      await fs.rename(tmp, fileFor(entry.id));
+    },
+    async list() {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException)?.code === "ENOENT") return [];
+        throw e;
+      }
+      const entries = await Promise.all(
+        names.filter((n) => n.endsWith(".json")).map(async (n) => JSON.parse(await fs.readFile(path.join(dir, n), "utf8")) as OutboxEntry)
+      );
+      return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+  };
+}
+
+let store: OutboxStore | null = null;
+
+/** Follows BLUEPRINT_STORE so a memory deployment keeps everything in memory. Files go to OUTBOX_DIR (default ".data/outbox"). */
+export function getOutboxStore(): OutboxStore {
+  if (store) return store;
+
+  const kind = process.env.BLUEPRINT_STORE ?? "file";
+  switch (kind) {
+    case "memory":
+      store = createMemoryOutboxStore();
+      break;
+    case "file":
+      store = createFileOutboxStore(process.env.OUTBOX_DIR ?? path.join(process.cwd(), ".data", "outbox"));
+      break;
+    default:
+      throw new Error(`Unknown BLUEPRINT_STORE: ${kind}`);
+  }
+  return store;
+}
+
+export const MAX_ATTEMPTS = 6;
+
+// 30s, 2m, 8m, 32m, ~2h: about 2.7 hours of retries before an entry is dead-lettered.
+export function retryDelayMs(attempts: number): number {
+  return 30_000 * 4 ** (attempts - 1);
+}
+
+// How long an entry that is being sent stays hidden from sweeps; well above any channel's send time.
+export const SEND_LEASE_MS = 2 * 60_000;
+
+/**
+ * Writes one pending entry per channel. The caller makes the first attempt inline, so the entries
+ * start out leased and sweeps from other requests do not send them at the same time.
+ */
+export async function enqueueNotification(
+  blueprintId: string,
+  notification: IntakeNotification,
+  channels: NotifierChannel[]
+): Promise<OutboxEntry[]> {
+  const now = new Date();
+  const createdAt = now.toISOString();
+  const leasedUntil = new Date(now.getTime() + SEND_LEASE_MS).toISOString();
+  const entries = channels.map(
+    (channel): OutboxEntry => ({
+      id: `${notification.id}-${channel}`,
+      blueprintId,
+      channel,
+      notification,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: leasedUntil,
+      lastError: null,
+      createdAt,
+      updatedAt: createdAt,
+    })
+  );
+  const outbox = getOutboxStore();
+  for (const entry of entries) await outbox.put(entry);
+  return entries;
+}
+
+// Entries this process is sending right now.
+const sending = new Set<string>();
+
+async function deliver(entry: OutboxEntry, now: Date, onlyIfDue: boolean): Promise<OutboxEntry> {
+  // Another request in this process is already sending it.
+  if (sending.has(entry.id)) return entry;
+  sending.add(entry.id);
+  try {
+    const outbox = getOutboxStore();
+    // Re-read: a sweep may have listed the entry before another caller delivered or rescheduled it.
+    const current = (await outbox.get(entry.id)) ?? entry;
+    if (current.status !== "pending") return current;
+    if (onlyIfDue && current.nextAttemptAt && current.nextAttemptAt > now.toISOString()) return current;
+    // Lease it so sweeps in other processes skip it while this send runs.
+    await outbox.put({ ...current, nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS).toISOString() });
+
+    let error: string | null = null;
+    try {
+      // The channel may have been dropped from INTAKE_NOTIFIERS since the entry was written.
+      const notifier = getNotifiers().find((n) => n.channel === current.channel);
+      if (!notifier) throw new Error(`Channel ${current.channel} is not configured`);
+      await notifier.send(current.notification);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const attempts = current.attempts + 1;
+    const status: OutboxStatus = !error ? "delivered" : attempts >= MAX_ATTEMPTS ? "dead" : "pending";
+    const next: OutboxEntry = {
+      ...current,
+      status,
+      attempts,
+      nextAttemptAt: status === "pending" ? new Date(now.getTime() + retryDelayMs(attempts)).toISOString() : null,
+      lastError: error,
+      updatedAt: now.toISOString(),
+    };
+    await outbox.put(next);
+    return next;
+  } finally {
+    sending.delete(entry.id);
+  }
+}
+
+/** Makes one delivery attempt and records the outcome. Delivered and dead entries are returned unchanged. */
+export function attemptDelivery(entry: OutboxEntry, now = new Date()): Promise<OutboxEntry> {
+  return deliver(entry, now, false);
+}
+
+/** Retries every pending entry whose backoff has elapsed. Safe to call from a cron job. */
+export async function processDueEntries(now = new Date()): Promise<OutboxEntry[]> {
+  const due = (await getOutboxStore().list()).filter(
+    (e) => e.status === "pending" && (!e.nextAttemptAt || e.nextAttemptAt <= now.toISOString())
+  );
+  const results: OutboxEntry[] = [];
+  for (const entry of due) results.push(await deliver(entry, now, true));
+  return results;
+}
+
+/** Moves a dead entry back to pending with a fresh retry budget and tries it once straight away. */
+export async function redriveEntry(id: string): Promise<OutboxEntry | null> {
+  const entry = await getOutboxStore().get(id);
+  if (!entry) return null;
+  if (entry.status !== "dead") return entry;
+
+  const reset: OutboxEntry = { ...entry, status: "pending", attempts: 0, nextAttemptAt: new Date().toISOString() };
+  await getOutboxStore().put(reset);
+  return attemptDelivery(reset);
+}
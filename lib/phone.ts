@@ -0,0 +1,118 @@
+export const PHONE_COUNTRY_CODES = ["US", "CA", "GB", "IE", "DE", "FR", "ES", "NL", "AU", "IN", "MX", "BR"] as const;
+
+export type PhoneCountry = (typeof PHONE_COUNTRY_CODES)[number];
+
+type CountryRule = {
+  label: string;
+  callingCode: string;
+  // Prefix dialled before an international number from this country.
+  internationalPrefix: string;
+  // Prefix dialled before a national number, dropped in E.164.
+  trunkPrefix: string;
+  // Allowed lengths of the national significant number.
+  nationalLengths: [min: number, max: number];
+};
+
+export const PHONE_COUNTRIES: Record<PhoneCountry, CountryRule> = {
+  US: { label: "United States", callingCode: "1", internationalPrefix: "011", trunkPrefix: "1", nationalLengths: [10, 10] },
+  CA: { label: "Canada", callingCode: "1", internationalPrefix: "011", trunkPrefix: "1", nationalLengths: [10, 10] },
+  GB: { label: "United Kingdom", callingCode: "44", internationalPrefix: "00", trunkPrefix: "0", nationalLengths: [9, 10] },
+  IE: { label: "Ireland", callingCode: "353", internationalPrefix: "00", trunkPrefix: "0", nationalLengths: [7, 9] },
+  DE: { label: "Germany", callingCode: "49", internationalPrefix: "00", trunkPrefix: "0", nationalLengths: [6, 13] },
+  FR: { label: "France", callingCode: "33", internationalPrefix: "00", trunkPrefix: "0", nationalLengths: [9, 9] },
+  ES: { label: "Spain", callingCode: "34", internationalPrefix: "00", trunkPrefix: "", nationalLengths: [9, 9] },
+  NL: { label: "Netherlands", callingCode: "31", internationalPrefix: "00", trunkPrefix: "0", nationalLengths: [9, 9] },
+  AU: { label: "Australia", callingCode: "61", internationalPrefix: "0011", trunkPrefix: "0", nationalLengths: [9, 9] },
+  IN: { label: "India", callingCode: "91", internationalPrefix: "00", trunkPrefix: "0", nationalLengths: [10, 10] },
+  MX: { label: "Mexico", callingCode: "52", internationalPrefix: "00", trunkPrefix: "", nationalLengths: [10, 10] },
+  BR: { label: "Brazil", callingCode: "55", internationalPrefix: "00", trunkPrefix: "0", nationalLengths: [10, 11] },
+};
+
+export type PhoneRule = "e164" | "as_is" | "other";
+
+export type PhoneNormalizationOptions = {
+  rule: PhoneRule;
+  defaultCountry: PhoneCountry;
+  stripExtension: boolean;
+};
+
+export type PhoneNormalizationResult =
+  | { ok: true; value: string; extension: string | null; country: PhoneCountry | null }
+  | { ok: false; error: string };
+
+const EXTENSION = /\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})\s*$/i;
+
+function splitExtension(input: string): { number: string; extension: string | null } {
+  const match = input.match(EXTENSION);
+  if (!match || match.index === undefined) return { number: input, extension: null };
+  return { number: input.slice(0, match.index), extension: match[1] };
+}
+
+function countryForInternational(digits: string, preferred: PhoneCountry): PhoneCountry | null {
+  // Several countries share a calling code (+1); prefer the configured default when it matches.
+  if (digits.startsWith(PHONE_COUNTRIES[preferred].callingCode)) return preferred;
+
+  let best: PhoneCountry | null = null;
+  for (const code of PHONE_COUNTRY_CODES) {
+    const callingCode = PHONE_COUNTRIES[code].callingCode;
+    if (digits.startsWith(callingCode) && (!best || callingCode.length > PHONE_COUNTRIES[best].callingCode.length)) {
+      best = code;
+    }
+  }
+  return best;
+}
+
+function toE164(raw: string, defaultCountry: PhoneCountry): { value: string; country: PhoneCountry | null } | { error: string } {
+  const trimmed = raw.trim();
+  if (/[a-z]/i.test(trimmed)) return { error: "Contains letters" };
+
+  const digits = trimmed.replace(/\D/g, "");
+  if (!digits) return { error: "No digits" };
+
+  const home = PHONE_COUNTRIES[defaultCountry];
+  let international: string | null = null;
+  if (trimmed.startsWith("+")) {
+    international = digits;
+  } else if (digits.startsWith(home.internationalPrefix)) {
+    international = digits.slice(home.internationalPrefix.length);
+  } else if (digits.startsWith("00") && home.internationalPrefix !== "00") {
+    international = digits.slice(2);
+  }
+
+  if (international !== null) {
+    if (international.length < 8 || international.length > 15) {
+      return { error: "International numbers must have 8-15 digits" };
+    }
+    return { value: `+${international}`, country: countryForInternational(international, defaultCountry) };
+  }
+
+  let national = digits;
+  const [min, max] = home.nationalLengths;
+  if (home.trunkPrefix && national.startsWith(home.trunkPrefix) && national.length > min) {
+    national = national.slice(home.trunkPrefix.length);
+  }
+  if (national.length < min || national.length > max) {
+    const expected = min === max ? `${min}` : `${min}-${max}`;
+    return { error: `Expected ${expected} digits for a ${home.label} number` };
+  }
+  return { value: `+${home.callingCode}${national}`, country: defaultCountry };
+}
+
+export function normalizePhone(input: string, options: PhoneNormalizationOptions): PhoneNormalizationResult {
+  const { number, extension } = splitExtension(input);
+
+  switch (options.rule) {
+    case "as_is":
+    case "other": {
+      // "other" is described in prose for the implementer, so there is nothing to execute here.
+      const value = (options.stripExtension ? number : input).trim();
+      return value ? { ok: true, value, extension, country: null } : { ok: false, error: "Empty" };
+    }
+    case "e164": {
+      const result = toE164(number, options.defaultCountry);
+      if ("error" in result) return { ok: false, error: result.error };
+      // E.164 has no room for an extension; keeping it means carrying it alongside.
+      return { ok: true, value: result.value, extension: options.stripExtension ? null : extension, country: result.country };
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import type { Blueprint } from "@/lib/blueprints/schema";
+
+// Sources for src/crm.ts in the generated project, one per CRM. Each exports the same `crm`
+// object so the rest of the scaffold does not care which CRM it talks to.
+
+const CRM_INTERFACE = `export type CrmContact = { id: string; companyId: string | null; lastActivityDate: string | null };
+
+export type ActivityInput = {
+  subject: string;
+  timestamp: string;
+  ownerId: string | null;
+  contact: CrmContact | null;
+  // Extra CRM properties, e.g. the interaction ID field.
+  properties: Record<string, string>;
+};
+
+export type CrmClient = {
+  findContactsByPhone(phone: string): Promise<CrmContact[]>;
+  findContactByExternalId(field: string, value: string): Promise<CrmContact | null>;
+  findOwnerIdByEmail(email: string): Promise<string | null>;
+  createActivity(input: ActivityInput): Promise<string>;
+  updateActivity(id: string, properties: Record<string, string>): Promise<void>;
+  createTask(input: ActivityInput): Promise<string>;
+};
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error("Missing environment variable " + name);
+  return value;
+}
+`;
+
+const HUBSPOT_OBJECTS: Record<Blueprint["crmActivity"]["objectType"], { object: string; subject: string }> = {
+  engagement: { object: "calls", subject: "hs_call_title" },
+  task: { object: "tasks", subject: "hs_task_subject" },
+  note: { object: "notes", subject: "hs_note_body" },
+};
+
+function hubspotClient(blueprint: Blueprint): string {
+  const activity = HUBSPOT_OBJECTS[blueprint.crmActivity.objectType];
+  const associations = blueprint.crmActivity.associations;
+
+  return `${CRM_INTERFACE}
+const BASE_URL = "https://api.hubapi.com";
+const ACTIVITY_OBJECT = "${activity.object}";
+const ACTIVITY_SUBJECT_PROPERTY = "${activity.subject}";
+
+async function hubspot<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(BASE_URL + path, {
+    ...init,
+    headers: {
+      Authorization: "Bearer " + requireEnv("HUBSPOT_ACCESS_TOKEN"),
+      "Content-Type": "application/json",
+      ...init.headers,
+    },
+  });
+  if (!res.ok) throw new Error("HubSpot " + (init.method ?? "GET") + " " + path + " failed: " + res.status + " " + (await res.text()));
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+type SearchResult = { results: Array<{ id: string; properties: Record<string, string | null> }> };
+
+async function searchContacts(propertyName: string, value: string): Promise<CrmContact[]> {
+  const body = {
+    filterGroups: [{ filters: [{ propertyName, operator: "EQ", value }] }],
+    properties: ["associatedcompanyid", "notes_last_updated"],
+    limit: 10,
+  };
+  const data = await hubspot<SearchResult>("/crm/v3/objects/contacts/search", { method: "POST", body: JSON.stringify(body) });
+  return data.results.map((r) => ({
+    id: r.id,
+    companyId: r.properties.associatedcompanyid ?? null,
+    lastActivityDate: r.properties.notes_last_updated ?? null,
+  }));
+}
+
+async function associate(objectId: string, toObject: string, toId: string): Promise<void> {
+  await hubspot("/crm/v4/objects/" + ACTIVITY_OBJECT + "/" + objectId + "/associations/default/" + toObject + "/" + toId, {
+    method: "PUT",
+  });
+}
+
+async function createObject(object: string, properties: Record<string, string>): Promise<string> {
+  const data = await hubspot<{ id: string }>("/crm/v3/objects/" + object, { method: "POST", body: JSON.stringify({ properties }) });
+  return data.id;
+}
+
+export const crm: CrmClient = {
+  // TODO: HubSpot compares phone values as stored. Keep a normalized copy of the number in a
+  // custom property and search on that instead if your data is not already in E.164.
+  findContactsByPhone: (phone) => searchContacts("phone", phone),
+
+  async findContactByExternalId(field, value) {
+    const [contact] = await searchContacts(field, value);
+    return contact ?? null;
+  },
+
+  async findOwnerIdByEmail(email) {
+    const data = await hubspot<{ results: Array<{ id: string }> }>("/crm/v3/owners/?email=" + encodeURIComponent(email), {
+      method: "GET",
+    });
+    return data.results[0]?.id ?? null;
+  },
+
+  async createActivity(input) {
+    const id = await createObject(ACTIVITY_OBJECT, {
+      hs_timestamp: input.timestamp,
+      [ACTIVITY_SUBJECT_PROPERTY]: input.subject,
+      ...(input.ownerId ? { hubspot_owner_id: input.ownerId } : {}),
+      ...input.properties,
+    });
+    if (input.contact) {
+${associations.includes("contact") ? '      await associate(id, "contacts", input.contact.id);\n' : ""}${associations.includes("company") ? '      if (input.contact.companyId) await associate(id, "companies", input.contact.companyId);\n' : ""}${associations.includes("deal") ? "      // TODO: look up the contact's open deal and associate it with associate(id, \"deals\", dealId).\n" : ""}    }
+    return id;
+  },
+
+  async updateActivity(id, properties) {
+    await hubspot("/crm/v3/objects/" + ACTIVITY_OBJECT + "/" + id, { method: "PATCH", body: JSON.stringify({ properties }) });
+  },
+
+  async createTask(input) {
+    const id = await createObject("tasks", {
+      hs_timestamp: input.timestamp,
+      hs_task_subject: input.subject,
+      hs_task_status: "NOT_STARTED",
+      ...(input.ownerId ? { hubspot_owner_id: input.ownerId } : {}),
+    });
+    if (input.contact) {
+      await hubspot("/crm/v4/objects/tasks/" + id + "/associations/default/contacts/" + input.contact.id, { method: "PUT" });
+    }
+    return id;
+  },
+};
+`;
+}
+
+const SALESFORCE_OBJECTS: Record<Blueprint["crmActivity"]["objectType"], { object: string; fields: string }> = {
+  engagement: { object: "Task", fields: 'TaskSubtype: "Call", Status: "Completed"' },
+  task: { object: "Task", fields: 'Status: "Not Started"' },
+  note: { object: "Note", fields: "" },
+};
+
+function salesforceClient(blueprint: Blueprint): string {
+  const activity = SALESFORCE_OBJECTS[blueprint.crmActivity.objectType];
+  const associations = blueprint.crmActivity.associations;
+  const isNote = activity.object === "Note";
+  const subjectField = isNote ? "Title" : "Subject";
+
+  const links: string[] = [];
+  if (isNote) {
+    links.push("ParentId: input.contact?.id");
+  } else {
+    if (associations.includes("contact")) links.push("WhoId: input.contact?.id");
+    if (associations.includes("company")) links.push("WhatId: input.contact?.companyId ?? undefined");
+  }
+
+  return `${CRM_INTERFACE}
+const API_VERSION = "v60.0";
+
+async function salesforce<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(requireEnv("SALESFORCE_INSTANCE_URL") + "/services/data/" + API_VERSION + path, {
+    ...init,
+    headers: {
+      Authorization: "Bearer " + requireEnv("SALESFORCE_ACCESS_TOKEN"),
+      "Content-Type": "application/json",
+      ...init.headers,
+    },
+  });
+  if (!res.ok) throw new Error("Salesforce " + path + " failed: " + res.status + " " + (await res.text()));
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+function quote(value: string): string {
+  return "'" + value.replace(/\\\\/g, "\\\\\\\\").replace(/'/g, "\\\\'") + "'";
+}
+
+async function query<T>(soql: string): Promise<T[]> {
+  const data = await salesforce<{ records: T[] }>("/query?q=" + encodeURIComponent(soql));
+  return data.records;
+}
+
+type ContactRow = { Id: string; AccountId: string | null; LastActivityDate: string | null };
+
+function toContact(row: ContactRow): CrmContact {
+  return { id: row.Id, companyId: row.AccountId, lastActivityDate: row.LastActivityDate };
+}
+
+async function create(object: string, fields: Record<string, unknown>): Promise<string> {
+  const data = await salesforce<{ id: string }>("/sobjects/" + object, { method: "POST", body: JSON.stringify(fields) });
+  return data.id;
+}
+
+export const crm: CrmClient = {
+  async findContactsByPhone(phone) {
+    // TODO: Salesforce stores phones as typed. Match on a normalized formula field if you have one.
+    const rows = await query<ContactRow>(
+      "SELECT Id, AccountId, LastActivityDate FROM Contact WHERE Phone = " + quote(phone) + " OR MobilePhone = " + quote(phone) + " LIMIT 10"
+    );
+    return rows.map(toContact);
+  },
+
+  async findContactByExternalId(field, value) {
+    const rows = await query<ContactRow>(
+      "SELECT Id, AccountId, LastActivityDate FROM Contact WHERE " + field + " = " + quote(value) + " LIMIT 1"
+    );
+    return rows[0] ? toContact(rows[0]) : null;
+  },
+
+  async findOwnerIdByEmail(email) {
+    const rows = await query<{ Id: string }>("SELECT Id FROM User WHERE IsActive = true AND Email = " + quote(email) + " LIMIT 1");
+    return rows[0]?.Id ?? null;
+  },
+
+  createActivity(input) {
+    return create("${activity.object}", {
+      ${subjectField}: input.subject,
+${isNote ? "      Body: input.subject,\n" : `      ActivityDate: input.timestamp.slice(0, 10),\n      ${activity.fields},\n`}${links.map((l) => `      ${l},\n`).join("")}      ...(input.ownerId ? { OwnerId: input.ownerId } : {}),
+      ...input.properties,
+    });
+  },
+
+  async updateActivity(id, properties) {
+    await salesforce("/sobjects/${activity.object}/" + id, { method: "PATCH", body: JSON.stringify(properties) });
+  },
+
+  createTask(input) {
+    return create("Task", {
+      Subject: input.subject,
+      Status: "Not Started",
+      ActivityDate: input.timestamp.slice(0, 10),
+      WhoId: input.contact?.id,
+      ...(input.ownerId ? { OwnerId: input.ownerId } : {}),
+    });
+  },
+};
+`;
+}
+
+function genericClient(blueprint: Blueprint): string {
+  const name = blueprint.systems.otherCrmName ?? "your CRM";
+  return `${CRM_INTERFACE}
+// TODO: implement these calls against the ${name} API. Keep the signatures; the webhook handler
+// only depends on this object.
+function notImplemented(name: string): never {
+  throw new Error("crm." + name + " is not implemented yet");
+}
+
+export const crm: CrmClient = {
+  findContactsByPhone: async () => notImplemented("findContactsByPhone"),
+  findContactByExternalId: async () => notImplemented("findContactByExternalId"),
+  findOwnerIdByEmail: async () => notImplemented("findOwnerIdByEmail"),
+  createActivity: async () => notImplemented("createActivity"),
+  updateActivity: async () => notImplemented("updateActivity"),
+  createTask: async () => notImplemented("createTask"),
+};
+`;
+}
+
+export function renderCrmClient(blueprint: Blueprint): string {
+  switch (blueprint.systems.crm) {
+    case "hubspot":
+      return hubspotClient(blueprint);
+    case "salesforce":
+      return salesforceClient(blueprint);
+    case "other":
+      return genericClient(blueprint);
+  }
+}
+
+export function crmEnvVars(blueprint: Blueprint): string[] {
+  switch (blueprint.systems.crm) {
+    case "hubspot":
+      return ["HUBSPOT_ACCESS_TOKEN"];
+    case "salesforce":
+      return ["SALESFORCE_INSTANCE_URL", "SALESFORCE_ACCESS_TOKEN"];
+    case "other":
+      return ["CRM_API_TOKEN"];
+  }
+}
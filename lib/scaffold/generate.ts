@@ -0,0 +1,689 @@
+import type { Blueprint } from "@/lib/blueprints/schema";
+import { dispositionAttribute } from "@/lib/intake/dispositions";
+import { PHONE_COUNTRIES } from "@/lib/phone";
+import { crmEnvVars, renderCrmClient } from "@/lib/scaffold/crm-clients";
+
+export type ScaffoldFile = { path: string; content: string };
+
+// Where each platform's events usually come from; a starting point for the TODO in src/events.ts.
+const PLATFORM_HINTS: Record<Blueprint["systems"]["contactCenter"], string> = {
+  ringcentral: "RingCentral telephony session notifications (subscription to /restapi/v1.0/account/~/telephony/sessions)",
+  five9: "a Five9 web connector or the Five9 Statistics/VCC event stream",
+  genesys: "a Genesys Cloud notification or EventBridge integration on v2.detail.events.conversation topics",
+  nice: "NICE CXone real-time data or a Studio script REST action",
+  other: "your contact center's webhook or event stream",
+};
+
+function contactCenterName(blueprint: Blueprint): string {
+  return blueprint.systems.otherContactCenterName ?? blueprint.systems.contactCenter;
+}
+
+function crmName(blueprint: Blueprint): string {
+  return blueprint.systems.otherCrmName ?? blueprint.systems.crm;
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "x";
+}
+
+export function scaffoldName(blueprint: Blueprint): string {
+  return `${slug(contactCenterName(blueprint))}-${slug(crmName(blueprint))}-connector`;
+}
+
+function renderConfig(blueprint: Blueprint, id: string): string {
+  const phone = blueprint.matching.phoneNormalization;
+  const country = PHONE_COUNTRIES[phone.defaultCountry];
+  const config = {
+    contactCenter: contactCenterName(blueprint),
+    crm: crmName(blueprint),
+    events: blueprint.trigger.events,
+    channels: blueprint.trigger.channels.map((c) => c.type),
+    direction: blueprint.trigger.direction,
+    activity: blueprint.crmActivity,
+    dispositions: blueprint.dispositions,
+    matching: {
+      strategy: blueprint.matching.strategy,
+      externalIdField: blueprint.matching.externalIdField,
+      phone: {
+        rule: phone.rule,
+        defaultCountry: phone.defaultCountry,
+        callingCode: country.callingCode,
+        internationalPrefix: country.internationalPrefix,
+        trunkPrefix: country.trunkPrefix,
+        nationalLengths: country.nationalLengths,
+        stripExtension: phone.stripExtension,
+      },
+    },
+    context: blueprint.contextInjection,
+    ownership: blueprint.ownership,
+    idempotencyKey: blueprint.reliability.idempotencyKey,
+    logging: blueprint.security.logging,
+  };
+
+  return `// Generated from blueprint ${id}. Regenerate from the blueprint page rather than editing by hand.
+export const config = ${JSON.stringify(config, null, 2)} as const;
+`;
+}
+
+function renderEvents(blueprint: Blueprint): string {
+  return `import { config } from "./config.js";
+
+export type InteractionEvent = {
+  name: string;
+  lifecycle: string;
+  interactionId: string;
+  channel: string;
+  direction: "inbound" | "outbound";
+  ani: string;
+  dnis: string;
+  agentEmail?: string;
+  agentName?: string;
+  queue?: string;
+  externalId?: string;
+  timestamp: string;
+  raw: Record<string, unknown>;
+};
+
+function text(payload: Record<string, unknown>, key: string): string | undefined {
+  const value = payload[key];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/**
+ * Maps an incoming payload to an InteractionEvent, or returns null if it is not one.
+ *
+ * TODO: events typically arrive from ${PLATFORM_HINTS[blueprint.systems.contactCenter]}.
+ * Replace the flat field lookups below with that payload's real shape.
+ */
+export function parseEvent(payload: unknown): InteractionEvent | null {
+  if (!payload || typeof payload !== "object") return null;
+  const p = payload as Record<string, unknown>;
+
+  const name = text(p, "event") ?? text(p, "type");
+  const interactionId = text(p, "interactionId");
+  if (!name || !interactionId) return null;
+
+  const prefix = config.contactCenter + ".";
+  return {
+    name,
+    lifecycle: name.startsWith(prefix) ? name.slice(prefix.length) : name,
+    interactionId,
+    channel: text(p, "channel") ?? "voice",
+    direction: text(p, "direction") === "outbound" ? "outbound" : "inbound",
+    ani: text(p, "ani") ?? "",
+    dnis: text(p, "dnis") ?? "",
+    agentEmail: text(p, "agentEmail"),
+    agentName: text(p, "agentName"),
+    queue: text(p, "queue"),
+    externalId: text(p, "externalId"),
+    timestamp: text(p, "timestamp") ?? new Date().toISOString(),
+    raw: p,
+  };
+}
+`;
+}
+
+function renderPhone(blueprint: Blueprint): string {
+  const { rule, otherRule } = blueprint.matching.phoneNormalization;
+  const header = `import { config } from "./config.js";
+
+const EXTENSION = /\\s*(?:ext\\.?|extension|x|#)\\s*(\\d{1,6})\\s*$/i;
+
+function stripExtension(input: string): string {
+  return config.matching.phone.stripExtension ? input.replace(EXTENSION, "") : input;
+}
+`;
+
+  if (rule === "as_is") {
+    return `${header}
+/** Numbers are compared exactly as received, apart from the extension setting. */
+export function normalizePhone(input: string): string | null {
+  return stripExtension(input).trim() || null;
+}
+`;
+  }
+
+  if (rule === "other") {
+    return `${header}
+/**
+ * TODO: implement the agreed rule:
+ * ${(otherRule ?? "").replace(/\*\//g, "* /")}
+ */
+export function normalizePhone(input: string): string | null {
+  return stripExtension(input).trim() || null;
+}
+`;
+  }
+
+  return `${header}
+/** Converts a number to E.164, treating national numbers as ${blueprint.matching.phoneNormalization.defaultCountry}. */
+export function normalizePhone(input: string): string | null {
+  const raw = stripExtension(input).trim();
+  if (/[a-z]/i.test(raw)) return null;
+  const digits = raw.replace(/\\D/g, "");
+  if (!digits) return null;
+
+  const { callingCode, internationalPrefix, trunkPrefix, nationalLengths } = config.matching.phone;
+  let international: string | null = null;
+  if (raw.startsWith("+")) international = digits;
+  else if (digits.startsWith(internationalPrefix)) international = digits.slice(internationalPrefix.length);
+
+  if (international !== null) {
+    return international.length >= 8 && international.length <= 15 ? "+" + international : null;
+  }
+
+  const [min, max] = nationalLengths;
+  let national = digits;
+  if (trunkPrefix && national.startsWith(trunkPrefix) && national.length > min) national = national.slice(trunkPrefix.length);
+  return national.length >= min && national.length <= max ? "+" + callingCode + national : null;
+}
+`;
+}
+
+function renderMatching(blueprint: Blueprint): string {
+  const { strategy } = blueprint.matching;
+  const usesPhone = strategy.includes("ani_phone_match");
+  const usesExternalId = strategy.includes("external_id");
+
+  const steps: string[] = [];
+  if (usesExternalId) {
+    steps.push(`  // External IDs are exact, so they are tried before the phone number.
+  if (event.externalId && config.matching.externalIdField) {
+    const contact = await crm.findContactByExternalId(config.matching.externalIdField, event.externalId);
+    if (contact) return { contact, candidates: 1 };
+  }
+`);
+  }
+  if (usesPhone) {
+    steps.push(`  const phone = normalizePhone(event.ani);
+  if (phone) {
+    const contacts = await crm.findContactsByPhone(phone);
+    if (contacts.length > 0) {
+      // Several contacts can share a number; the most recently active one wins.
+      const [best] = [...contacts].sort((a, b) => (b.lastActivityDate ?? "").localeCompare(a.lastActivityDate ?? ""));
+      return { contact: best, candidates: contacts.length };
+    }
+  }
+`);
+  }
+
+  return `import { config } from "./config.js";
+import { crm, type CrmContact } from "./crm.js";
+import type { InteractionEvent } from "./events.js";
+${usesPhone ? 'import { normalizePhone } from "./phone.js";\n' : ""}
+export type MatchResult = { contact: CrmContact | null; candidates: number };
+
+export async function matchContact(event: InteractionEvent): Promise<MatchResult> {
+${steps.join("\n")}
+  return { contact: null, candidates: 0 };
+}
+`;
+}
+
+function renderLogger(blueprint: Blueprint): string {
+  if (blueprint.security.logging === "no_payload_logging") {
+    return `// Blueprint logging posture: no payload logging. Only event metadata is written; never pass
+// payloads, phone numbers or CRM records to these functions.
+type Meta = { event?: string; interactionId?: string; status?: string; error?: string };
+
+function write(level: string, message: string, meta: Meta = {}) {
+  console.log(JSON.stringify({ level, message, ...meta, at: new Date().toISOString() }));
+}
+
+export const log = {
+  info: (message: string, meta?: Meta) => write("info", message, meta),
+  warn: (message: string, meta?: Meta) => write("warn", message, meta),
+  error: (message: string, meta?: Meta) => write("error", message, meta),
+};
+`;
+  }
+
+  return `// Blueprint logging posture: mask PII. Phone numbers and email addresses are masked before
+// anything is written.
+const EMAIL = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+)/g;
+const PHONE = /\\+?\\d[\\d\\s().-]{5,}(\\d{2})/g;
+
+function mask(value: unknown): unknown {
+  if (typeof value === "string") return value.replace(EMAIL, "$1***@$2").replace(PHONE, "***$1");
+  if (Array.isArray(value)) return value.map(mask);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mask(v)]));
+  }
+  return value;
+}
+
+function write(level: string, message: string, meta: Record<string, unknown> = {}) {
+  console.log(JSON.stringify({ level, message, ...(mask(meta) as Record<string, unknown>), at: new Date().toISOString() }));
+}
+
+export const log = {
+  info: (message: string, meta?: Record<string, unknown>) => write("info", message, meta),
+  warn: (message: string, meta?: Record<string, unknown>) => write("warn", message, meta),
+  error: (message: string, meta?: Record<string, unknown>) => write("error", message, meta),
+};
+`;
+}
+
+function renderState(blueprint: Blueprint): string {
+  const shared = blueprint.reliability.expectedVolume === "1000_10000" || blueprint.reliability.expectedVolume === "gt_10000";
+  return `// In-memory state for a single process.${
+    shared ? " At the expected volume you will run several instances, so move this to Redis or a database table first." : ""
+  }
+const claimed = new Map<string, number>();
+const activities = new Map<string, string>();
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Returns false when the key was already processed within the last day. */
+export function claimOnce(key: string): boolean {
+  const now = Date.now();
+  for (const [k, at] of claimed) if (now - at > TTL_MS) claimed.delete(k);
+  if (claimed.has(key)) return false;
+  claimed.set(key, now);
+  return true;
+}
+
+/** Releases a claim so a retried delivery can try again after a failure. */
+export function release(key: string) {
+  claimed.delete(key);
+}
+
+export function rememberActivity(interactionId: string, activityId: string) {
+  activities.set(interactionId, activityId);
+}
+
+export function findActivity(interactionId: string): string | undefined {
+  return activities.get(interactionId);
+}
+`;
+}
+
+const SUBJECT_SOURCE = `// Same placeholder syntax as the blueprint: {{variable | filter:arg}}.
+const PLACEHOLDER = /\\{\\{([^{}]*)\\}\\}/g;
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatDate(value: string, format = "YYYY-MM-DD HH:mm"): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  const parts: Record<string, string> = {
+    YYYY: String(d.getUTCFullYear()),
+    MM: pad(d.getUTCMonth() + 1),
+    DD: pad(d.getUTCDate()),
+    HH: pad(d.getUTCHours()),
+    mm: pad(d.getUTCMinutes()),
+    ss: pad(d.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
+function applyFilter(value: string, filter: string): string {
+  const sep = filter.indexOf(":");
+  const name = (sep === -1 ? filter : filter.slice(0, sep)).trim();
+  const arg = sep === -1 ? "" : filter.slice(sep + 1).trim().replace(/^(["'])(.*)\\1$/, "$2");
+  switch (name) {
+    case "date":
+      return formatDate(value, arg || undefined);
+    case "upper":
+      return value.toUpperCase();
+    case "lower":
+      return value.toLowerCase();
+    case "truncate":
+      return value.length > Number(arg) ? value.slice(0, Number(arg)) + "…" : value;
+    case "default":
+      return value || arg;
+    default:
+      return value;
+  }
+}
+
+export function renderSubject(template: string, values: Record<string, string | undefined>): string {
+  return template.replace(PLACEHOLDER, (raw, body: string) => {
+    const [variable, ...filters] = body.split("|");
+    const value = values[variable.trim()];
+    if (value === undefined) return raw;
+    return filters.reduce(applyFilter, value);
+  });
+}
+`;
+
+function renderWebhook(blueprint: Blueprint): string {
+  const actions = new Set(blueprint.trigger.events.map((e) => e.action));
+  const { ownerStrategy, storeInteractionId, interactionIdField } = blueprint.ownership;
+
+  let owner: string;
+  if (ownerStrategy === "map_agent_email") {
+    owner = `async function resolveOwner(event: InteractionEvent): Promise<string | null> {
+  if (!event.agentEmail) return null;
+  const ownerId = await crm.findOwnerIdByEmail(event.agentEmail);
+  if (!ownerId) log.warn("No CRM owner for agent; leaving unassigned", { interactionId: event.interactionId });
+  return ownerId;
+}`;
+  } else if (ownerStrategy === "fixed_owner") {
+    owner = `// Fixed owner from the blueprint. TODO: confirm this is the CRM owner id, not a display name.
+async function resolveOwner(_event: InteractionEvent): Promise<string | null> {
+  return config.ownership.fixedOwner;
+}`;
+  } else {
+    owner = `async function resolveOwner(_event: InteractionEvent): Promise<string | null> {
+  return null;
+}`;
+  }
+
+  // Disposition outcomes run once the activity they belong to exists.
+  const usesDispositions = blueprint.dispositions.length > 0;
+  const disposition = usesDispositions ? "\n        const disposition = await applyDisposition(event, id, input);" : "";
+  const dispositionResult = usesDispositions ? ", disposition" : "";
+
+  const cases: string[] = [];
+  if (actions.has("create_activity")) {
+    cases.push(`      case "create_activity": {
+        const id = await crm.createActivity(input);
+        rememberActivity(event.interactionId, id);${disposition}
+        return { status: 200, body: { ok: true, action: trigger.action, id${dispositionResult} } };
+      }`);
+  }
+  if (actions.has("update_activity")) {
+    cases.push(`      case "update_activity": {
+        const id = findActivity(event.interactionId);
+        if (!id) {
+          log.warn("No activity to update", { interactionId: event.interactionId });
+          return { status: 200, body: { ok: true, ignored: "no activity for this interaction" } };
+        }
+        await crm.updateActivity(id, { ...input.properties });${disposition}
+        return { status: 200, body: { ok: true, action: trigger.action, id${dispositionResult} } };
+      }`);
+  }
+  if (actions.has("create_task")) {
+    cases.push(`      case "create_task": {
+        const id = await crm.createTask({ ...input, subject: "Follow up: " + event.lifecycle + " from " + event.ani });
+        return { status: 200, body: { ok: true, action: trigger.action, id } };
+      }`);
+  }
+  cases.push(`      default:
+        return { status: 200, body: { ok: true, ignored: "unsupported action" } };`);
+
+  return `import { config } from "./config.js";
+import { crm, type ActivityInput } from "./crm.js";
+${usesDispositions ? 'import { applyDisposition } from "./dispositions.js";\n' : ""}import { parseEvent, type InteractionEvent } from "./events.js";
+import { log } from "./logger.js";
+import { matchContact } from "./matching.js";
+import { claimOnce, findActivity, release, rememberActivity } from "./state.js";
+import { renderSubject } from "./subject.js";
+
+export type WebhookResult = { status: number; body: Record<string, unknown> };
+
+${owner}
+
+function subjectValues(event: InteractionEvent): Record<string, string | undefined> {
+  const { raw, ...fields } = event;
+  // Platform-specific variables (extension, skill, ...) come straight from the payload.
+  const extra = Object.fromEntries(Object.entries(raw).filter(([, v]) => typeof v === "string")) as Record<string, string>;
+  return { ...extra, ...fields };
+}
+
+function idempotencyKey(event: InteractionEvent): string | null {
+  const value = (event as Record<string, unknown>)[config.idempotencyKey] ?? event.raw[config.idempotencyKey];
+  return typeof value === "string" && value ? event.lifecycle + ":" + value : null;
+}
+
+export async function handleWebhook(payload: unknown): Promise<WebhookResult> {
+  const event = parseEvent(payload);
+  if (!event) return { status: 400, body: { ok: false, error: "Unrecognised payload" } };
+
+  const trigger = config.events.find((e) => e.lifecycle === event.lifecycle);
+  if (!trigger) return { status: 200, body: { ok: true, ignored: "event not in blueprint" } };
+  if (!(config.channels as readonly string[]).includes(event.channel)) {
+    return { status: 200, body: { ok: true, ignored: "channel not in blueprint" } };
+  }
+${
+    blueprint.trigger.direction === "both"
+      ? ""
+      : `  if (event.direction !== config.direction) {
+    return { status: 200, body: { ok: true, ignored: "direction not in blueprint" } };
+  }
+`
+  }
+  const key = idempotencyKey(event);
+  if (key && !claimOnce(key)) {
+    log.info("Duplicate delivery skipped", { event: event.name, interactionId: event.interactionId });
+    return { status: 200, body: { ok: true, duplicate: true } };
+  }
+
+  try {
+    const match = await matchContact(event);
+    if (match.candidates > 1) log.warn("Several contacts matched; using the most recent", { interactionId: event.interactionId });
+
+    const input: ActivityInput = {
+      subject: renderSubject(config.activity.subjectTemplate, subjectValues(event)),
+      timestamp: event.timestamp,
+      ownerId: await resolveOwner(event),
+      contact: match.contact,
+      properties: {${storeInteractionId && interactionIdField ? `\n        ${JSON.stringify(interactionIdField)}: event.interactionId,\n      ` : ""}},
+    };
+
+    switch (trigger.action) {
+${cases.join("\n")}
+    }
+  } catch (e) {
+    // Let the platform retry the delivery.
+    if (key) release(key);
+    log.error("Failed to process event", { interactionId: event.interactionId, error: e instanceof Error ? e.message : String(e) });
+    return { status: 500, body: { ok: false, error: "Processing failed" } };
+  }
+}
+`;
+}
+
+// Property holding the activity's status, or null when the CRM or activity type has none.
+function activityStatusProperty(blueprint: Blueprint): string | null {
+  const { objectType } = blueprint.crmActivity;
+  if (blueprint.systems.crm === "salesforce") return objectType === "task" ? "Status" : null;
+  if (blueprint.systems.crm === "hubspot") return objectType === "engagement" ? "hs_call_status" : objectType === "task" ? "hs_task_status" : null;
+  return null;
+}
+
+function renderDispositions(blueprint: Blueprint): string {
+  const statusProperty = activityStatusProperty(blueprint);
+  const outcomes = new Set(blueprint.dispositions.map((d) => d.outcome.type));
+  // Platforms without a known attribute fall back to the shared "disposition" one, which needs checking.
+  const attribute = dispositionAttribute(blueprint.systems.contactCenter);
+
+  const cases: string[] = [];
+  if (outcomes.has("activity_status")) {
+    cases.push(
+      statusProperty
+        ? `    case "activity_status":
+      await crm.updateActivity(activityId, { ${JSON.stringify(statusProperty)}: rule.outcome.status });
+      break;`
+        : `    case "activity_status":
+      // TODO: set rule.outcome.status on the activity's status property.
+      log.warn("Activity status outcome not implemented", { interactionId: event.interactionId, status: rule.outcome.status });
+      break;`
+    );
+  }
+  if (outcomes.has("follow_up_task")) {
+    cases.push(`    case "follow_up_task": {
+      const due = new Date(Date.parse(event.timestamp) + rule.outcome.dueInDays * DAY_MS).toISOString();
+      await crm.createTask({ ...input, subject: rule.outcome.subject, timestamp: due });
+      break;
+    }`);
+  }
+  if (outcomes.has("deal_stage")) {
+    cases.push(`    case "deal_stage":
+      // TODO: look up the contact's open deal and move it to rule.outcome.stage.
+      log.warn("Deal stage outcome not implemented", { interactionId: event.interactionId, status: rule.outcome.stage });
+      break;`);
+  }
+  cases.push(`    default:
+      break;`);
+
+  return `import { config } from "./config.js";
+import { crm, type ActivityInput } from "./crm.js";
+import type { InteractionEvent } from "./events.js";
+import { log } from "./logger.js";
+import { claimOnce, release } from "./state.js";
+${outcomes.has("follow_up_task") ? "\nconst DAY_MS = 24 * 60 * 60 * 1000;\n" : ""}
+/** The disposition or wrap-up code on the event, if the agent has set one. */
+export function dispositionCode(event: InteractionEvent): string | null {${
+    attribute === "disposition" ? `\n  // TODO: check where ${contactCenterName(blueprint)} puts the code in the payload.` : ""
+  }
+  const value = event.raw[${JSON.stringify(attribute)}];
+  return typeof value === "string" && value ? value : null;
+}
+
+/** Carries out the blueprint's outcome for the event's disposition code. Returns the outcome applied, if any. */
+export async function applyDisposition(event: InteractionEvent, activityId: string, input: ActivityInput): Promise<string | null> {
+  const code = dispositionCode(event);
+  if (!code) return null;
+  const rule = config.dispositions.find((d) => d.code.toLowerCase() === code.toLowerCase());
+  if (!rule) {
+    log.warn("Disposition code not in blueprint", { interactionId: event.interactionId, status: code });
+    return null;
+  }
+
+  // Several events of one interaction (e.g. ended and wrap-up) can carry the code; only the first applies it.
+  const claim = "disposition:" + event.interactionId;
+  if (!claimOnce(claim)) return null;
+  try {
+    switch (rule.outcome.type) {
+${cases.map((c) => c.replace(/^/gm, "  ")).join("\n")}
+    }
+  } catch (e) {
+    release(claim);
+    throw e;
+  }
+  return rule.outcome.type;
+}
+`;
+}
+
+const SERVER_SOURCE = `import { createServer } from "node:http";
+import { handleWebhook } from "./webhook.js";
+import { log } from "./logger.js";
+
+const port = Number(process.env.PORT ?? 3000);
+
+createServer((req, res) => {
+  if (req.method !== "POST" || req.url !== "/webhook") {
+    res.writeHead(404).end();
+    return;
+  }
+
+  // TODO: verify the platform's request signature with WEBHOOK_SECRET before trusting the body.
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", async () => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      res.writeHead(400, { "Content-Type": "application/json" }).end(JSON.stringify({ ok: false, error: "Invalid JSON" }));
+      return;
+    }
+    const result = await handleWebhook(payload);
+    res.writeHead(result.status, { "Content-Type": "application/json" }).end(JSON.stringify(result.body));
+  });
+}).listen(port, () => log.info("Listening on port " + port));
+`;
+
+function renderPackageJson(blueprint: Blueprint): string {
+  return `${JSON.stringify(
+    {
+      name: scaffoldName(blueprint),
+      version: "0.1.0",
+      private: true,
+      type: "module",
+      scripts: {
+        dev: "tsx watch src/server.ts",
+        build: "tsc",
+        start: "node dist/server.js",
+      },
+      devDependencies: {
+        "@types/node": "^20",
+        tsx: "^4",
+        typescript: "^5",
+      },
+    },
+    null,
+    2
+  )}\n`;
+}
+
+const TSCONFIG_SOURCE = `${JSON.stringify(
+  {
+    compilerOptions: {
+      target: "ES2022",
+      module: "NodeNext",
+      moduleResolution: "NodeNext",
+      strict: true,
+      outDir: "dist",
+      rootDir: "src",
+      skipLibCheck: true,
+    },
+    include: ["src"],
+  },
+  null,
+  2
+)}\n`;
+
+function renderReadme(blueprint: Blueprint, id: string): string {
+  const events = blueprint.trigger.events.map((e) => `- \`${e.name}\` -> ${e.action}`).join("\n");
+  const codes = blueprint.dispositions.length;
+  const dispositions = codes > 0 ? `- \`src/dispositions.ts\` - CRM outcomes for ${codes} disposition code${codes === 1 ? "" : "s"}\n` : "";
+  return `# ${scaffoldName(blueprint)}
+
+Starter project generated from blueprint \`${id}\`: ${contactCenterName(blueprint)} events to ${crmName(blueprint)}.
+It compiles and runs, but the platform payload mapping and CRM calls are starting points. Search for \`TODO\`.
+
+## Events handled
+${events}
+
+## Layout
+- \`src/server.ts\` - HTTP server, \`POST /webhook\`
+- \`src/webhook.ts\` - filters by event, channel and direction, deduplicates, then runs the CRM action
+- \`src/events.ts\` - maps the platform payload to an interaction event
+- \`src/matching.ts\` - customer matching (${blueprint.matching.strategy.join(", ")})
+- \`src/crm.ts\` - ${crmName(blueprint)} client
+- \`src/state.ts\` - idempotency keys (\`${blueprint.reliability.idempotencyKey}\`) and created activities
+- \`src/logger.ts\` - logging (${blueprint.security.logging})
+${dispositions}- \`blueprint.json\` - the blueprint this was generated from
+
+## Running
+\`\`\`bash
+cp .env.example .env
+npm install
+npm run dev
+\`\`\`
+`;
+}
+
+/** Builds the files of a TypeScript starter project for the blueprint. Paths are relative to the project root. */
+export function generateScaffold(blueprint: Blueprint, id: string): ScaffoldFile[] {
+  const env = [...crmEnvVars(blueprint), "WEBHOOK_SECRET", "PORT"];
+  const files: ScaffoldFile[] = [
+    { path: "README.md", content: renderReadme(blueprint, id) },
+    { path: "package.json", content: renderPackageJson(blueprint) },
+    { path: "tsconfig.json", content: TSCONFIG_SOURCE },
+    { path: ".env.example", content: env.map((name) => (name === "PORT" ? "PORT=3000" : `${name}=`)).join("\n") + "\n" },
+    { path: ".gitignore", content: "node_modules\ndist\n.env\n" },
+    { path: "blueprint.json", content: `${JSON.stringify(blueprint, null, 2)}\n` },
+    { path: "src/config.ts", content: renderConfig(blueprint, id) },
+    { path: "src/events.ts", content: renderEvents(blueprint) },
+    { path: "src/matching.ts", content: renderMatching(blueprint) },
+    { path: "src/crm.ts", content: renderCrmClient(blueprint) },
+    { path: "src/state.ts", content: renderState(blueprint) },
+    { path: "src/logger.ts", content: renderLogger(blueprint) },
+    { path: "src/subject.ts", content: SUBJECT_SOURCE },
+    { path: "src/webhook.ts", content: renderWebhook(blueprint) },
+    { path: "src/server.ts", content: SERVER_SOURCE },
+  ];
+  if (blueprint.matching.strategy.includes("ani_phone_match")) {
+    files.push({ path: "src/phone.ts", content: renderPhone(blueprint) });
+  }
+  if (blueprint.dispositions.length > 0) {
+    files.push({ path: "src/dispositions.ts", content: renderDispositions(blueprint) });
+  }
+  return files;
+}
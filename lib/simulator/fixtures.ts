@@ -0,0 +1,176 @@
+import type { Blueprint } from "@/lib/blueprints/schema";
+import type { SimulatedEvent } from "@/lib/simulator/simulate";
+
+export type CrmUser = { id: string; name: string; email: string };
+
+export type CrmCompany = {
+  id: string;
+  name: string;
+  openDeals: number;
+  openTickets: number;
+  properties: Record<string, string>;
+};
+
+export type CrmContact = {
+  id: string;
+  fullName: string;
+  email: string;
+  // Stored the way CRMs usually hold them: whatever format was typed in.
+  phones: string[];
+  companyId: string | null;
+  lastActivityDate: string;
+  properties: Record<string, string>;
+};
+
+export type CrmDeal = { id: string; name: string; companyId: string; stage: string; open: boolean };
+
+export type CrmFixtures = {
+  users: CrmUser[];
+  companies: CrmCompany[];
+  contacts: CrmContact[];
+  deals: CrmDeal[];
+};
+
+export function createCrmFixtures(): CrmFixtures {
+  return {
+    users: [
+      { id: "user-1", name: "Jordan Lee", email: "jordan.lee@example.com" },
+      { id: "user-2", name: "Sam Patel", email: "sam.patel@example.com" },
+    ],
+    companies: [
+      { id: "company-1", name: "Acme Logistics", openDeals: 2, openTickets: 1, properties: { segment: "Mid-market" } },
+      { id: "company-2", name: "Birch Dental Group", openDeals: 0, openTickets: 3, properties: { segment: "SMB" } },
+    ],
+    contacts: [
+      {
+        id: "contact-1",
+        fullName: "Avery Chen",
+        email: "avery.chen@acme.example",
+        phones: ["(415) 555-0100"],
+        companyId: "company-1",
+        lastActivityDate: "2026-02-27",
+        properties: { customer_id: "CUST-0042", membershipId: "M-7781", segment: "Gold" },
+      },
+      {
+        id: "contact-2",
+        fullName: "Riley Morgan",
+        email: "riley@birchdental.example",
+        phones: ["+1 650 555 0142"],
+        companyId: "company-2",
+        lastActivityDate: "2026-03-02",
+        properties: { customer_id: "CUST-0107" },
+      },
+      // Two contacts behind one front-desk number: the multiple-match case.
+      {
+        id: "contact-3",
+        fullName: "Casey Birch",
+        email: "casey@birchdental.example",
+        phones: ["650-555-0199"],
+        companyId: "company-2",
+        lastActivityDate: "2026-01-15",
+        properties: { customer_id: "CUST-0108" },
+      },
+      {
+        id: "contact-4",
+        fullName: "Drew Birch",
+        email: "drew@birchdental.example",
+        phones: ["16505550199"],
+        companyId: "company-2",
+        lastActivityDate: "2026-03-10",
+        properties: { customer_id: "CUST-0109" },
+      },
+    ],
+    deals: [
+      { id: "deal-1", name: "Acme - Fleet expansion", companyId: "company-1", stage: "proposal", open: true },
+      { id: "deal-2", name: "Acme - Renewal 2025", companyId: "company-1", stage: "closed_won", open: false },
+    ],
+  };
+}
+
+/**
+ * A scripted day in the contact center: a known caller (delivered twice), an unknown caller,
+ * a shared number, an external-ID-only caller, and the follow-up lifecycle events.
+ */
+export function createSampleEvents(blueprint: Blueprint): SimulatedEvent[] {
+  const platform = blueprint.systems.otherContactCenterName ?? blueprint.systems.contactCenter;
+  const channel = blueprint.trigger.channels[0]?.type ?? "voice";
+  const direction = blueprint.trigger.direction === "outbound" ? "outbound" : "inbound";
+  const base = { channel, direction, dnis: "+18005550199", queue: "Support - Tier 1" } as const;
+  const jordan = { agentName: "Jordan Lee", agentEmail: "jordan.lee@example.com" };
+
+  return [
+    {
+      ...base,
+      ...jordan,
+      deliveryId: `${platform}-evt-1`,
+      lifecycle: "interaction.accepted",
+      interactionId: "int-1001",
+      ani: "+14155550100",
+      timestamp: "2026-03-14T15:09:26Z",
+    },
+    {
+      ...base,
+      ...jordan,
+      deliveryId: `${platform}-evt-1-retry`,
+      lifecycle: "interaction.accepted",
+      interactionId: "int-1001",
+      ani: "+14155550100",
+      timestamp: "2026-03-14T15:09:26Z",
+    },
+    {
+      ...base,
+      agentName: "Sam Patel",
+      agentEmail: "sam.patel@example.com",
+      deliveryId: `${platform}-evt-2`,
+      lifecycle: "interaction.accepted",
+      interactionId: "int-1002",
+      ani: "+12125550000",
+      timestamp: "2026-03-14T15:12:03Z",
+    },
+    {
+      ...base,
+      agentName: "Temp Agent",
+      agentEmail: "temp.agent@contractor.example",
+      deliveryId: `${platform}-evt-3`,
+      lifecycle: "interaction.accepted",
+      interactionId: "int-1003",
+      ani: "(650) 555-0199",
+      timestamp: "2026-03-14T15:20:41Z",
+    },
+    {
+      ...base,
+      ...jordan,
+      deliveryId: `${platform}-evt-4`,
+      lifecycle: "interaction.accepted",
+      interactionId: "int-1004",
+      ani: "+13105550111",
+      externalId: "CUST-0107",
+      timestamp: "2026-03-14T15:31:10Z",
+    },
+    {
+      ...base,
+      ...jordan,
+      deliveryId: `${platform}-evt-5`,
+      lifecycle: "interaction.ended",
+      interactionId: "int-1001",
+      ani: "+14155550100",
+      timestamp: "2026-03-14T15:18:55Z",
+    },
+    {
+      ...base,
+      deliveryId: `${platform}-evt-6`,
+      lifecycle: "interaction.missed",
+      interactionId: "int-1005",
+      ani: "+16505550142",
+      timestamp: "2026-03-14T16:02:00Z",
+    },
+    {
+      ...base,
+      deliveryId: `${platform}-evt-7`,
+      lifecycle: "voicemail.left",
+      interactionId: "int-1006",
+      ani: "+16505550142",
+      timestamp: "2026-03-14T16:03:12Z",
+    },
+  ];
+}
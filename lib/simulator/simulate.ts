@@ -0,0 +1,308 @@
+import { z } from "zod";
+import type { Blueprint } from "@/lib/blueprints/schema";
+import { CHANNEL_ENUM, LIFECYCLE_EVENT_ENUM } from "@/lib/intake/schema";
+import { renderTemplate } from "@/lib/intake/subject-template";
+import { normalizePhone, type PhoneNormalizationOptions } from "@/lib/phone";
+import { createCrmFixtures, type CrmCompany, type CrmContact, type CrmFixtures } from "@/lib/simulator/fixtures";
+
+export const SimulatedEventSchema = z.object({
+  // Unique per delivery; a retried webhook gets a new delivery id but keeps its interactionId.
+  deliveryId: z.string().min(1),
+  lifecycle: LIFECYCLE_EVENT_ENUM,
+  interactionId: z.string().min(1),
+  channel: CHANNEL_ENUM,
+  direction: z.enum(["inbound", "outbound"]),
+  ani: z.string(),
+  dnis: z.string(),
+  agentName: z.string().optional(),
+  agentEmail: z.string().optional(),
+  queue: z.string().optional(),
+  externalId: z.string().optional(),
+  timestamp: z.string(),
+  attributes: z.record(z.string(), z.string()).optional(),
+});
+
+export type SimulatedEvent = z.infer<typeof SimulatedEventSchema>;
+
+export type MatchResult = {
+  outcome: "matched" | "multiple" | "unmatched";
+  by: "external_id" | "phone" | null;
+  normalizedAni: string | null;
+  contactId: string | null;
+  contactName: string | null;
+  candidates: string[];
+};
+
+export type SimulatedRecord = {
+  id: string;
+  objectType: string;
+  subject: string;
+  associations: Partial<Record<"contact" | "company" | "deal", string>>;
+  owner: string | null;
+  properties: Record<string, string>;
+};
+
+export type SimulationStep = {
+  event: SimulatedEvent;
+  status: "created" | "updated" | "skipped";
+  operation: Blueprint["trigger"]["events"][number]["action"] | null;
+  summary: string;
+  idempotencyKey: string | null;
+  match: MatchResult | null;
+  record: SimulatedRecord | null;
+  context: Array<{ field: string; value: string }>;
+  warnings: string[];
+};
+
+export type SimulationResult = {
+  steps: SimulationStep[];
+  totals: Record<SimulationStep["status"], number>;
+};
+
+type RunState = {
+  fixtures: CrmFixtures;
+  seenKeys: Set<string>;
+  activitiesByInteraction: Map<string, SimulatedRecord>;
+  nextId: number;
+};
+
+function phoneOptions(blueprint: Blueprint): PhoneNormalizationOptions {
+  const { rule, defaultCountry, stripExtension } = blueprint.matching.phoneNormalization;
+  return { rule, defaultCountry, stripExtension };
+}
+
+function normalizeOrNull(raw: string, options: PhoneNormalizationOptions): string | null {
+  const result = normalizePhone(raw, options);
+  return result.ok ? result.value : null;
+}
+
+function matchContact(blueprint: Blueprint, event: SimulatedEvent, fixtures: CrmFixtures): MatchResult {
+  const { strategy, externalIdField } = blueprint.matching;
+
+  // External IDs are exact, so they win over phone numbers when both are configured.
+  if (strategy.includes("external_id") && externalIdField && event.externalId) {
+    const found = fixtures.contacts.filter((c) => c.properties[externalIdField] === event.externalId);
+    if (found.length > 0) return toMatch(found, "external_id", null);
+  }
+
+  if (strategy.includes("ani_phone_match")) {
+    const options = phoneOptions(blueprint);
+    const normalizedAni = normalizeOrNull(event.ani, options);
+    if (normalizedAni) {
+      const found = fixtures.contacts.filter((c) => c.phones.some((p) => normalizeOrNull(p, options) === normalizedAni));
+      if (found.length > 0) return toMatch(found, "phone", normalizedAni);
+    }
+    return { outcome: "unmatched", by: null, normalizedAni, contactId: null, contactName: null, candidates: [] };
+  }
+
+  return { outcome: "unmatched", by: null, normalizedAni: null, contactId: null, contactName: null, candidates: [] };
+}
+
+function toMatch(found: CrmContact[], by: "external_id" | "phone", normalizedAni: string | null): MatchResult {
+  // With several candidates, the most recently active contact is the usual tie-breaker.
+  const [best] = [...found].sort((a, b) => b.lastActivityDate.localeCompare(a.lastActivityDate));
+  return {
+    outcome: found.length > 1 ? "multiple" : "matched",
+    by,
+    normalizedAni,
+    contactId: best.id,
+    contactName: best.fullName,
+    candidates: found.map((c) => `${c.fullName} (${c.id})`),
+  };
+}
+
+function resolveOwner(blueprint: Blueprint, event: SimulatedEvent, fixtures: CrmFixtures, warnings: string[]): string | null {
+  const { ownerStrategy, fixedOwner } = blueprint.ownership;
+  if (ownerStrategy === "fixed_owner") return fixedOwner;
+  if (ownerStrategy === "unassigned") return null;
+
+  const user = fixtures.users.find((u) => u.email.toLowerCase() === event.agentEmail?.toLowerCase());
+  if (!user) {
+    warnings.push(
+      event.agentEmail
+        ? `Agent ${event.agentEmail} has no CRM user; activity left unassigned`
+        : "Event has no agent; activity left unassigned"
+    );
+    return null;
+  }
+  return `${user.name} (${user.id})`;
+}
+
+function resolveContextField(field: string, contact: CrmContact, company: CrmCompany | null): string | undefined {
+  const [scope, ...rest] = field.split(".");
+  const key = rest.join(".");
+  // Custom fields are usually bare CRM property names on the contact.
+  if (!key) return contact.properties[scope];
+  switch (scope) {
+    case "contact":
+      if (key === "phone") return contact.phones[0];
+      if (key === "fullName" || key === "email" || key === "lastActivityDate") return contact[key];
+      return contact.properties[key];
+    case "company":
+      if (!company) return undefined;
+      return key === "name" ? company.name : company.properties[key];
+    case "stats":
+      if (!company) return undefined;
+      if (key === "openDeals") return String(company.openDeals);
+      if (key === "openTickets") return String(company.openTickets);
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function idempotencyValue(blueprint: Blueprint, event: SimulatedEvent): string | undefined {
+  const key = blueprint.reliability.idempotencyKey;
+  const value = (event as Record<string, unknown>)[key] ?? event.attributes?.[key];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function simulateEvent(blueprint: Blueprint, event: SimulatedEvent, state: RunState): SimulationStep {
+  const warnings: string[] = [];
+  const skip = (summary: string, extra: Partial<SimulationStep> = {}): SimulationStep => ({
+    event,
+    status: "skipped",
+    operation: null,
+    summary,
+    idempotencyKey: null,
+    match: null,
+    record: null,
+    context: [],
+    warnings,
+    ...extra,
+  });
+
+  const trigger = blueprint.trigger.events.find((e) => e.lifecycle === event.lifecycle);
+  if (!trigger) return skip(`No trigger configured for ${event.lifecycle}`);
+  if (!blueprint.trigger.channels.some((c) => c.type === event.channel)) {
+    return skip(`Channel ${event.channel} is not in scope for this blueprint`);
+  }
+  if (blueprint.trigger.direction !== "both" && blueprint.trigger.direction !== event.direction) {
+    return skip(`Direction ${event.direction} is not in scope for this blueprint`);
+  }
+
+  const keyValue = idempotencyValue(blueprint, event);
+  let idempotencyKey: string | null = null;
+  if (keyValue) {
+    idempotencyKey = `${event.lifecycle}:${keyValue}`;
+    if (state.seenKeys.has(idempotencyKey)) {
+      return skip(`Duplicate delivery - idempotency key ${idempotencyKey} already processed`, {
+        operation: trigger.action,
+        idempotencyKey,
+      });
+    }
+    state.seenKeys.add(idempotencyKey);
+  } else {
+    warnings.push(`Event has no "${blueprint.reliability.idempotencyKey}" value; duplicates cannot be detected`);
+  }
+
+  const { fixtures } = state;
+  const match = matchContact(blueprint, event, fixtures);
+  if (match.outcome === "unmatched") warnings.push("Unknown caller - no CRM contact matched");
+  if (match.outcome === "multiple") {
+    warnings.push(`${match.candidates.length} contacts matched; picked the most recently active one`);
+  }
+
+  const contact = fixtures.contacts.find((c) => c.id === match.contactId) ?? null;
+  const company = fixtures.companies.find((c) => c.id === contact?.companyId) ?? null;
+  const owner = resolveOwner(blueprint, event, fixtures, warnings);
+
+  if (trigger.action === "update_activity") {
+    const existing = state.activitiesByInteraction.get(event.interactionId);
+    if (!existing) {
+      return skip(`No activity exists yet for interaction ${event.interactionId}; nothing to update`, {
+        operation: trigger.action,
+        idempotencyKey,
+        match,
+        warnings,
+      });
+    }
+    existing.properties.lastEvent = event.lifecycle;
+    existing.properties.updatedAt = event.timestamp;
+    return {
+      event,
+      status: "updated",
+      operation: trigger.action,
+      summary: `Updated ${existing.objectType} ${existing.id} with ${event.lifecycle}`,
+      idempotencyKey,
+      match,
+      record: { ...existing, properties: { ...existing.properties } },
+      context: [],
+      warnings,
+    };
+  }
+
+  const associations: SimulatedRecord["associations"] = {};
+  const wanted = blueprint.crmActivity.associations;
+  if (contact && wanted.includes("contact")) associations.contact = contact.id;
+  if (company && wanted.includes("company")) associations.company = company.id;
+  if (company && wanted.includes("deal")) {
+    const deal = fixtures.deals.find((d) => d.companyId === company.id && d.open);
+    if (deal) associations.deal = deal.id;
+  }
+
+  const values: Record<string, string> = {
+    ani: event.ani,
+    dnis: event.dnis,
+    interactionId: event.interactionId,
+    agentName: event.agentName ?? "",
+    agentEmail: event.agentEmail ?? "",
+    queue: event.queue ?? "",
+    direction: event.direction,
+    channel: event.channel,
+    timestamp: event.timestamp,
+    ...event.attributes,
+  };
+
+  const properties: Record<string, string> = {};
+  const { storeInteractionId, interactionIdField } = blueprint.ownership;
+  if (storeInteractionId && interactionIdField) properties[interactionIdField] = event.interactionId;
+
+  const isTask = trigger.action === "create_task";
+  const record: SimulatedRecord = {
+    id: `${isTask ? "task" : "activity"}-${state.nextId++}`,
+    objectType: isTask ? "task" : blueprint.crmActivity.objectType,
+    subject: isTask
+      ? `Follow up: ${event.lifecycle} from ${event.ani}`
+      : renderTemplate(blueprint.crmActivity.subjectTemplate, values),
+    associations,
+    owner,
+    properties,
+  };
+  if (!isTask) state.activitiesByInteraction.set(event.interactionId, record);
+
+  // Agent context is shown when the interaction is accepted; other lifecycle events have no screen to fill.
+  const context =
+    contact && event.lifecycle === "interaction.accepted"
+      ? [...blueprint.contextInjection.fields, ...blueprint.contextInjection.customFields].map((field) => ({
+          field,
+          value: resolveContextField(field, contact, company) ?? "(not found in CRM)",
+        }))
+      : [];
+
+  return {
+    event,
+    status: "created",
+    operation: trigger.action,
+    summary: `Created ${record.objectType} ${record.id}${contact ? ` for ${contact.fullName}` : " without a contact"}`,
+    idempotencyKey,
+    match,
+    record,
+    context,
+    warnings,
+  };
+}
+
+/** Replays events in order against fresh in-memory CRM fixtures. Nothing leaves the process. */
+export function simulateBlueprint(
+  blueprint: Blueprint,
+  events: SimulatedEvent[],
+  fixtures: CrmFixtures = createCrmFixtures()
+): SimulationResult {
+  const state: RunState = { fixtures, seenKeys: new Set(), activitiesByInteraction: new Map(), nextId: 1 };
+  const steps = events.map((event) => simulateEvent(blueprint, event, state));
+
+  const totals = { created: 0, updated: 0, skipped: 0 };
+  for (const step of steps) totals[step.status]++;
+  return { steps, totals };
+}
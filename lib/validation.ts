@@ -0,0 +1,20 @@
+import type { z } from "zod";
+
+export type ValidationIssue = {
+  path: Array<string | number>;
+  field: string;
+  code: string;
+  message: string;
+};
+
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.map((p) => (typeof p === "number" ? p : String(p)));
+    return {
+      path,
+      field: path.join("."),
+      code: issue.code,
+      message: issue.message,
+    };
+  });
+}